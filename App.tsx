@@ -1,4 +1,70 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import type { DailyLog, Project, ProjectType, TapEvent } from './types';
+import { getStorageAdapter, StorageAdapter } from './storage';
+import {
+  ARCHIVED,
+  CounterCommand,
+  CounterState,
+  DEFAULT_WEEK_STARTS_ON,
+  DateRange,
+  Granularity,
+  MAX_DECIMALS,
+  RangePreset,
+  applyCarryover,
+  configureDayStartHour,
+  createCounterStore,
+  createInitialState,
+  generateId,
+  getDayStartHour,
+  getDecimals,
+  getPeriodEnd,
+  getPresetRange,
+  getPreviousRange,
+  getStep,
+  getTodayString,
+  hasHistoryBefore,
+  hasLogOn,
+  shiftDate,
+  isInRange,
+  isMeasure,
+  normalizeTags,
+  selectActiveProject,
+  selectAggregatedStats,
+  selectAllTags,
+  selectHistoryData,
+  selectMeasureStats,
+  selectStreaksByName,
+  selectTagStats,
+  selectVisibleProjects,
+  withoutEventsOn
+} from './store';
+import { createTabSync, applyProjectChanges, ProjectChange } from './sync';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import {
+  FEEDBACK_SETTINGS_KEY,
+  FeedbackSettings,
+  getTapFeedbackKind,
+  isVibrationSupported,
+  loadFeedbackSettings,
+  playFeedback,
+  saveFeedbackSettings
+} from './feedback';
+import { runMigrations, MigrationContext, MigrationError, CURRENT_SCHEMA_VERSION } from './migrations';
+import {
+  LOCALES,
+  LOCALE_KEY,
+  Locale,
+  MessageKey,
+  Translate,
+  createTranslator,
+  detectLocale,
+  formatLongDate,
+  formatMonthYear,
+  formatNumber,
+  formatShortDate,
+  formatYear,
+  getWeekdayLabels
+} from './i18n';
 import { 
   RotateCcw, 
   Plus, 
@@ -22,51 +88,203 @@ import {
   Archive,
   CalendarPlus,
   CalendarRange,
-  ChevronDown
+  ChevronDown,
+  Download,
+  Upload,
+  FileBraces,
+  FileSpreadsheet,
+  Undo2,
+  Redo2,
+  Minus,
+  History,
+  Target,
+  CalendarDays,
+  Flame,
+  ArchiveRestore,
+  Keyboard,
+  RefreshCw,
+  Vibrate,
+  Volume2,
+  Languages,
+  Tag,
+  TrendingUp,
+  TrendingDown,
+  ChartColumn,
+  ChartLine,
+  LayoutGrid,
+  Gauge
 } from 'lucide-react';
 
 // --- Types ---
 
-interface DailyLog {
-  [date: string]: number; // "YYYY-MM-DD": count
-}
-
-interface Project {
-  id: string;
-  name: string;
-  count: number; // The current visual number (session/scratchpad)
-  logs: DailyLog; // Historical record of increments
-  createdAt: number;
-  lastActiveDate: string; // "YYYY-MM-DD" - Tracks which 'list' (day) this belongs to
-}
-
-const STORAGE_KEY = 'bigtap_data_v2';
-const LEGACY_STORAGE_KEY = 'bigtap_data'; // Fallback for data migration
 const RECENT_NAMES_KEY = 'bigtap_recent_names';
 const STATS_START_DATE_KEY = 'bigtap_stats_start_date';
+const STATS_END_DATE_KEY = 'bigtap_stats_end_date'; // '' = until today
+const STATS_RANGE_PRESET_KEY = 'bigtap_stats_range_preset';
+const DAY_START_HOUR_KEY = 'bigtap_day_start_hour';
+const WEEK_STARTS_ON_KEY = 'bigtap_week_starts_on';
+const LAYOUT_MODE_KEY = 'bigtap_layout_mode';
+
+const DAY_START_HOUR_OPTIONS = Array.from({ length: 12 }, (_, i) => i); // 00:00 - 11:00
+
+const DAY_CHECK_INTERVAL = 30 * 1000;
+
+const MAX_HISTORY = 100;
+const UNDO_TOAST_DURATION = 4000;
+
+// Snapshot of the data before an undoable action
+interface HistoryEntry {
+  label: string;
+  state: CounterState;
+}
 
 // --- Helper Functions ---
 
-const generateId = () => Math.random().toString(36).substr(2, 9);
+const STEP_PRESETS = [1, 5, 10];
+
+const formatTime = (timestamp: number, locale: Locale) => new Intl.DateTimeFormat(locale, {
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hour12: false
+}).format(new Date(timestamp));
+
+const formatInterval = (ms: number, t: Translate) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return t('time.hoursMinutes', { hours, minutes });
+  if (minutes > 0) return t('time.minutesSeconds', { minutes, seconds });
+  return t('time.seconds', { seconds });
+};
 
-const getTodayString = () => {
-  const d = new Date();
-  const offset = d.getTimezoneOffset();
-  const localDate = new Date(d.getTime() - (offset*60*1000));
-  return localDate.toISOString().split('T')[0];
+const formatDateDisplay = (dateStr: string, locale: Locale, t: Translate) => {
+  if (dateStr === getTodayString()) return t('date.today');
+  return formatLongDate(dateStr, locale);
 };
 
-const formatDateDisplay = (dateStr: string) => {
-  const today = getTodayString();
-  if (dateStr === today) return '今天 (Today)';
-  
-  const date = new Date(dateStr);
-  return new Intl.DateTimeFormat('zh-TW', { 
-    weekday: 'short', 
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric' 
-  }).format(date);
+// Measurement value with the project's precision and unit, e.g. "72.4 kg"
+const formatMeasure = (value: number, format: { unit?: string, decimals?: number }, locale: Locale) => {
+  const decimals = getDecimals(format);
+  const number = formatNumber(value, locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  return format.unit ? `${number} ${format.unit}` : number;
+};
+
+const GRANULARITIES: { value: Granularity, label: MessageKey, unit: MessageKey, average: MessageKey }[] = [
+  { value: 'day', label: 'granularity.day', unit: 'granularity.days', average: 'stats.averagePerDay' },
+  { value: 'week', label: 'granularity.week', unit: 'granularity.weeks', average: 'stats.averagePerWeek' },
+  { value: 'month', label: 'granularity.month', unit: 'granularity.months', average: 'stats.averagePerMonth' },
+  { value: 'year', label: 'granularity.year', unit: 'granularity.years', average: 'stats.averagePerYear' }
+];
+
+const formatPeriodLabel = (start: string, granularity: Granularity, locale: Locale, t: Translate) => {
+  const [year, month] = start.split('-').map(Number);
+  switch (granularity) {
+    case 'day':
+      return formatDateDisplay(start, locale, t);
+    case 'week':
+      return t('period.week', { start: formatShortDate(start, locale), end: formatShortDate(getPeriodEnd(start, 'week'), locale) });
+    case 'month':
+      return formatMonthYear(year, month, locale);
+    case 'year':
+      return formatYear(year, locale);
+  }
+};
+
+const RANGE_PRESETS: { value: RangePreset, label: MessageKey }[] = [
+  { value: 'thisWeek', label: 'range.thisWeek' },
+  { value: 'last7Days', label: 'range.last7Days' },
+  { value: 'thisMonth', label: 'range.thisMonth' },
+  { value: 'lastMonth', label: 'range.lastMonth' },
+  { value: 'thisYear', label: 'range.thisYear' },
+  { value: 'allTime', label: 'range.allTime' }
+];
+
+const formatRange = (range: DateRange, locale: Locale, t: Translate) =>
+  range.start
+    ? `${formatShortDate(range.start, locale)} – ${formatShortDate(range.end, locale)}`
+    : t('range.allTime');
+
+const isWeekday = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6;
+
+// Fills {placeholders} of a translated template with elements (e.g. highlighted spans)
+const richText = (template: string, values: Record<string, React.ReactNode>) =>
+  template.split(/\{(\w+)\}/).map((part, i) =>
+    i % 2 === 1 ? <React.Fragment key={i}>{values[part] ?? `{${part}}`}</React.Fragment> : part
+  );
+
+const padNumber = (n: number) => String(n).padStart(2, '0');
+
+// "health, work" -> ['health', 'work']
+const parseTagInput = (value: string) => normalizeTags(value.split(/[,，]/));
+
+const hasTag = (p: Project, tag: string) => !!p.tags?.some(t => t.toLowerCase() === tag.toLowerCase());
+
+const formatHour = (hour: number) => `${padNumber(hour)}:00`;
+
+// --- Keyboard Shortcuts ---
+
+const SHORTCUTS: { keys: string[], label: MessageKey }[] = [
+  { keys: ['Space', 'Enter'], label: 'shortcuts.increment' },
+  { keys: ['-', 'Backspace'], label: 'shortcuts.decrement' },
+  { keys: ['Z', 'Ctrl+Z'], label: 'shortcuts.undo' },
+  { keys: ['Shift+Z', 'Ctrl+Y'], label: 'shortcuts.redo' },
+  { keys: ['1–9'], label: 'shortcuts.selectNumber' },
+  { keys: ['←', '→'], label: 'shortcuts.selectAdjacent' },
+  { keys: ['S'], label: 'shortcuts.stats' },
+  { keys: ['M'], label: 'shortcuts.menu' },
+  { keys: ['L'], label: 'shortcuts.manualLog' },
+  { keys: ['?'], label: 'shortcuts.help' },
+  { keys: ['Esc'], label: 'shortcuts.close' }
+];
+
+// Shortcuts never fire while typing into a field
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Space/Enter on these already activate them natively
+const isActivatableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && ['BUTTON', 'A', 'SUMMARY'].includes(target.tagName);
+
+// Heatmap cell colour by count relative to the busiest day in view
+const getHeatClass = (count: number, max: number) => {
+  if (count <= 0 || max <= 0) return 'bg-slate-900 text-slate-600';
+  const ratio = count / max;
+  if (ratio > 0.75) return 'bg-indigo-400 text-indigo-950';
+  if (ratio > 0.5) return 'bg-indigo-500 text-white';
+  if (ratio > 0.25) return 'bg-indigo-700 text-indigo-100';
+  return 'bg-indigo-900 text-indigo-200';
+};
+
+// Trend chart series colours (bar fill / line stroke / legend swatch), assigned in selection order
+const CHART_COLORS = [
+  { fill: 'fill-indigo-500', stroke: 'stroke-indigo-400', swatch: 'bg-indigo-500' },
+  { fill: 'fill-emerald-500', stroke: 'stroke-emerald-400', swatch: 'bg-emerald-500' },
+  { fill: 'fill-amber-500', stroke: 'stroke-amber-400', swatch: 'bg-amber-500' },
+  { fill: 'fill-rose-500', stroke: 'stroke-rose-400', swatch: 'bg-rose-500' },
+  { fill: 'fill-sky-500', stroke: 'stroke-sky-400', swatch: 'bg-sky-500' },
+  { fill: 'fill-fuchsia-500', stroke: 'stroke-fuchsia-400', swatch: 'bg-fuchsia-500' }
+];
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 160;
+const MOVING_AVERAGE_DAYS = 7;
+
+// Trailing average; the first days average over however many days are available
+const getMovingAverage = (values: number[], window: number) =>
+  values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+    return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+  });
+
+// SVG polyline points for values scaled to the chart box, one slot per day
+const toChartPoints = (values: number[], max: number) => {
+  const slot = CHART_WIDTH / values.length;
+  return values
+    .map((v, i) => `${(i + 0.5) * slot},${CHART_HEIGHT - (max > 0 ? (v / max) * CHART_HEIGHT : 0)}`)
+    .join(' ');
 };
 
 // Returns a date string for 6 months ago (Default)
@@ -76,106 +294,315 @@ const getSixMonthsAgoString = () => {
   return d.toISOString().split('T')[0];
 };
 
-// --- Components ---
+// --- Backup (Export / Import) ---
+
+const BACKUP_FORMAT = 'bigtap-backup';
+const BACKUP_VERSION = 1;
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  projects: Project[];
+  recentNames: string[];
+  settings: {
+    statsStartDate: string;
+    dayStartHour?: number; // Missing in backups made before the setting existed
+    weekStartsOn?: number; // 0 = Sunday; likewise optional
+  };
+}
 
-const App: React.FC = () => {
-  // --- State ---
-  
-  const [projects, setProjects] = useState<Project[]>(() => {
-    try {
-      let saved = localStorage.getItem(STORAGE_KEY);
-      
-      // MIGRATION CHECK: If no v2 data, try loading legacy data
-      if (!saved) {
-        const legacyData = localStorage.getItem(LEGACY_STORAGE_KEY);
-        if (legacyData) {
-          saved = legacyData;
-        }
-      }
+interface BackupSummary {
+  projectCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  totalTaps: number;
+}
 
-      let loadedProjects: Project[] = [];
-      
-      if (saved) {
-        loadedProjects = JSON.parse(saved);
-      } else {
-        // Migrate from old simple counter if exists (very old version)
-        const oldSimpleCount = localStorage.getItem('bigtap_counter_value');
-        if (oldSimpleCount) {
-          const val = parseInt(oldSimpleCount, 10) || 0;
-          const today = getTodayString();
-          const initialLog = val > 0 ? { [today]: val } : {};
-          loadedProjects = [{
-            id: generateId(),
-            name: '默認計數 (Default)',
-            count: val,
-            logs: initialLog,
-            createdAt: Date.now(),
-            lastActiveDate: today
-          }];
-        }
-      }
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
-      const todayStr = getTodayString();
+// Measurement values may be 0 or below; counts may not
+const isDailyLog = (value: unknown, allowNegative = false): value is DailyLog => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([date, count]) =>
+    DATE_KEY_PATTERN.test(date) && typeof count === 'number' && Number.isFinite(count) && (allowNegative || count >= 0)
+  );
+};
 
-      // 1. Data Migration: Ensure lastActiveDate exists
-      loadedProjects = loadedProjects.map(p => {
-        if (p.lastActiveDate) return p;
-        
-        // Infer last active date if missing
-        const logDates = Object.keys(p.logs).sort();
-        const lastLogDate = logDates.length > 0 ? logDates[logDates.length - 1] : todayStr;
-        return {
-          ...p,
-          lastActiveDate: lastLogDate
-        };
-      });
+const isTapEvent = (value: unknown): value is TapEvent => {
+  if (!value || typeof value !== 'object') return false;
+  const e = value as Record<string, unknown>;
+  return (
+    typeof e.id === 'string' &&
+    typeof e.at === 'number' && Number.isFinite(e.at) &&
+    typeof e.date === 'string' && DATE_KEY_PATTERN.test(e.date) &&
+    typeof e.delta === 'number' && Number.isFinite(e.delta)
+  );
+};
 
-      if (loadedProjects.length === 0) {
-        return [{
-          id: generateId(),
-          name: '默認計數 (Default)',
-          count: 0,
-          logs: {},
-          createdAt: Date.now(),
-          lastActiveDate: todayStr
-        }];
-      }
+// `events` is optional so backups made before the tap journal existed still import
+const isProject = (value: unknown): value is Project => {
+  if (!value || typeof value !== 'object') return false;
+  const p = value as Record<string, unknown>;
+  return (
+    typeof p.id === 'string' && p.id.length > 0 &&
+    typeof p.name === 'string' &&
+    typeof p.count === 'number' && Number.isFinite(p.count) &&
+    typeof p.createdAt === 'number' &&
+    typeof p.lastActiveDate === 'string' &&
+    (p.step === undefined || (typeof p.step === 'number' && Number.isInteger(p.step) && p.step > 0)) &&
+    (p.goal === undefined || (typeof p.goal === 'number' && Number.isInteger(p.goal) && p.goal > 0)) &&
+    (p.tags === undefined || (Array.isArray(p.tags) && p.tags.every(t => typeof t === 'string'))) &&
+    (p.type === undefined || p.type === 'counter' || p.type === 'measure') &&
+    (p.unit === undefined || typeof p.unit === 'string') &&
+    (p.decimals === undefined || (typeof p.decimals === 'number' && Number.isInteger(p.decimals) && p.decimals >= 0 && p.decimals <= MAX_DECIMALS)) &&
+    (p.events === undefined || (Array.isArray(p.events) && p.events.every(isTapEvent))) &&
+    isDailyLog(p.logs, p.type === 'measure')
+  );
+};
 
-      // 2. Smart Carryover Logic
-      const hasProjectsForToday = loadedProjects.some(p => p.lastActiveDate === todayStr);
+const createBackup = (
+  projects: Project[],
+  recentNames: string[],
+  statsStartDate: string,
+  dayStartHour: number,
+  weekStartsOn: number
+): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  projects,
+  recentNames,
+  settings: { statsStartDate, dayStartHour, weekStartsOn }
+});
+
+// Throws an Error with a user-facing message when the file is not a valid backup
+const parseBackup = (text: string, t: Translate): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t('import.errorInvalidJson'));
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new Error(t('import.errorUnrecognized'));
+  }
+  const raw = data as Record<string, unknown>;
+  if (raw.format !== BACKUP_FORMAT) {
+    throw new Error(t('import.errorNotBackup'));
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new Error(t('import.errorVersion', { version: String(raw.version) }));
+  }
+  if (!Array.isArray(raw.projects)) {
+    throw new Error(t('import.errorNoProjects'));
+  }
+  const invalidIndex = raw.projects.findIndex(p => !isProject(p));
+  if (invalidIndex !== -1) {
+    throw new Error(t('import.errorInvalidProject', { index: invalidIndex + 1 }));
+  }
+
+  const recentNames = Array.isArray(raw.recentNames)
+    ? raw.recentNames.filter((n): n is string => typeof n === 'string')
+    : [];
+  const settings = (raw.settings && typeof raw.settings === 'object') ? raw.settings as Record<string, unknown> : {};
+  const statsStartDate = typeof settings.statsStartDate === 'string' && DATE_KEY_PATTERN.test(settings.statsStartDate)
+    ? settings.statsStartDate
+    : getSixMonthsAgoString();
+  const dayStartHour = typeof settings.dayStartHour === 'number' && Number.isInteger(settings.dayStartHour) &&
+    settings.dayStartHour >= 0 && settings.dayStartHour <= 23
+    ? settings.dayStartHour
+    : undefined;
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    projects: (raw.projects as Project[]).map(p => ({ ...p, events: p.events ?? [] })),
+    recentNames,
+    settings: {
+      statsStartDate,
+      dayStartHour,
+      weekStartsOn: isWeekday(settings.weekStartsOn) ? settings.weekStartsOn : undefined
+    }
+  };
+};
 
-      if (!hasProjectsForToday) {
-        const allDates = new Set<string>();
-        loadedProjects.forEach(p => Object.keys(p.logs).forEach(d => allDates.add(d)));
-        loadedProjects.forEach(p => allDates.add(p.lastActiveDate));
-        
-        const sortedDates = Array.from(allDates).sort().reverse();
-        const latestDate = sortedDates.find(d => d < todayStr);
-
-        if (latestDate) {
-          loadedProjects = loadedProjects.map(p => {
-            if (p.lastActiveDate === latestDate || (p.logs[latestDate] || 0) > 0) {
-              return { ...p, count: 0, lastActiveDate: todayStr };
-            }
-            return p;
-          });
-        }
+const summarizeBackup = (backup: BackupFile): BackupSummary => {
+  let firstDate: string | null = null;
+  let lastDate: string | null = null;
+  let totalTaps = 0;
+
+  backup.projects.forEach(p => {
+    Object.entries(p.logs).forEach(([date, count]) => {
+      if (!hasLogOn(p, date)) return;
+      // Measurement values are not taps
+      if (!isMeasure(p)) totalTaps += count;
+      if (!firstDate || date < firstDate) firstDate = date;
+      if (!lastDate || date > lastDate) lastDate = date;
+    });
+  });
+
+  return { projectCount: backup.projects.length, firstDate, lastDate, totalTaps };
+};
+
+// Merge imported projects into the current list. Projects are matched by id, then by name, and only
+// with a project of the same type (a counter never takes in measurement values, or vice versa).
+// For a matched project each day keeps the higher count, so importing the same file twice is harmless,
+// and the tags of both are kept.
+const mergeProjects = (current: Project[], incoming: Project[]): Project[] => {
+  const merged = current.map(p => ({ ...p, logs: { ...p.logs } }));
+
+  incoming.forEach(inc => {
+    const sameType = (p: Project) => isMeasure(p) === isMeasure(inc);
+    const target = merged.find(p => p.id === inc.id && sameType(p))
+      || merged.find(p => p.name.trim().toLowerCase() === inc.name.trim().toLowerCase() && sameType(p));
+
+    if (!target) {
+      // Added as a separate project; a new id keeps it apart from one of the other type
+      const id = merged.some(p => p.id === inc.id) ? generateId() : inc.id;
+      merged.push({ ...inc, id, logs: { ...inc.logs } });
+      return;
+    }
+
+    Object.entries(inc.logs).forEach(([date, count]) => {
+      if (!hasLogOn(inc, date)) return;
+      // Measurement values can be 0 or below, so a day without one always takes the imported value
+      if (!hasLogOn(target, date) || count > target.logs[date]) {
+        target.logs[date] = count;
+        target.events = [...withoutEventsOn(target.events, date), ...inc.events.filter(e => e.date === date)];
       }
+    });
+    target.createdAt = Math.min(target.createdAt, inc.createdAt);
+    const tags = normalizeTags([...(target.tags ?? []), ...(inc.tags ?? [])]);
+    if (tags.length > 0) target.tags = tags;
+  });
 
-      return loadedProjects;
+  return merged;
+};
 
-    } catch (e) {
-      console.error("Failed to load data", e);
-      return [{
-        id: generateId(),
-        name: '默認計數 (Default)',
-        count: 0,
-        logs: {},
-        createdAt: Date.now(),
-        lastActiveDate: getTodayString()
-      }];
+const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// --- CSV Export ---
+
+type CsvCell = string | number;
+
+const escapeCsvCell = (cell: CsvCell) => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// UTF-8 BOM so Excel detects the encoding and shows Chinese names correctly
+const toCsv = (rows: CsvCell[][]) =>
+  '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+// Collects per-day totals keyed by trimmed project name, limited to dates within the range.
+// Measurement projects are left out, since their values are not counts.
+const collectDailyTotalsByName = (projects: Project[], range: DateRange) => {
+  const totals: Record<string, Record<string, number>> = {};
+  projects.forEach(p => {
+    if (isMeasure(p)) return;
+    const name = p.name.trim();
+    Object.entries(p.logs).forEach(([date, count]) => {
+      if (!isInRange(date, range) || count <= 0) return;
+      if (!totals[date]) totals[date] = {};
+      totals[date][name] = (totals[date][name] || 0) + count;
+    });
+  });
+  return totals;
+};
+
+// One row per date × project
+const buildLongCsv = (projects: Project[], range: DateRange, t: Translate) => {
+  const totals = collectDailyTotalsByName(projects, range);
+  const rows: CsvCell[][] = [[t('csv.date'), t('csv.project'), t('csv.count')]];
+  Object.keys(totals).sort().forEach(date => {
+    Object.keys(totals[date]).sort((a, b) => a.localeCompare(b)).forEach(name => {
+      rows.push([date, name, totals[date][name]]);
+    });
+  });
+  return toCsv(rows);
+};
+
+// Dates as rows, projects as columns
+const buildWideCsv = (projects: Project[], range: DateRange, t: Translate) => {
+  const totals = collectDailyTotalsByName(projects, range);
+  const dates = Object.keys(totals).sort();
+  const names = Array.from(new Set(dates.flatMap(d => Object.keys(totals[d])))).sort((a, b) => a.localeCompare(b));
+
+  const rows: CsvCell[][] = [[t('csv.date'), ...names, t('csv.total')]];
+  dates.forEach(date => {
+    const counts = names.map(name => totals[date][name] || 0);
+    rows.push([date, ...counts, counts.reduce((sum, c) => sum + c, 0)]);
+  });
+  return toCsv(rows);
+};
+
+// --- Loading ---
+
+const migrationContext = (): MigrationContext => ({
+  today: getTodayString(),
+  now: Date.now(),
+  createId: generateId
+});
+
+// Applies the smart carryover for today's list to migrated projects
+const prepareLoadedState = (loaded: Project[]): CounterState => {
+  const today = getTodayString();
+  if (loaded.length === 0) return createInitialState(today, Date.now());
+
+  const projects = applyCarryover(loaded, today);
+  return { projects, activeProjectId: projects[0].id };
+};
+
+// --- Components ---
+
+const App: React.FC = () => {
+  // --- State ---
+  
+  const [locale, setLocale] = useState<Locale>(detectLocale);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+
+  // Applied before anything computes "today" (including the carryover on load)
+  const [dayStartHour, setDayStartHour] = useState<number>(() => {
+    try {
+      configureDayStartHour(parseInt(localStorage.getItem(DAY_START_HOUR_KEY) || '', 10));
+    } catch {
+      configureDayStartHour(0);
     }
+    return getDayStartHour();
   });
+  // The day the lists are showing; moves forward at the day boundary while the app is open
+  const [currentDay, setCurrentDay] = useState(getTodayString);
+
+  // All counting goes through the store; undo history and UI state stay here
+  const [store] = useState(() => createCounterStore());
+  const counterState = useSyncExternalStore(store.subscribe, store.getState);
+  const { projects, activeProjectId } = counterState;
+  const [isLoaded, setIsLoaded] = useState(false);
+  const storageRef = useRef<StorageAdapter | null>(null);
+  // Shown after startup when stored data was upgraded, or could not be read
+  const [dataNotice, setDataNotice] = useState<{ type: 'info' | 'error', message: string } | null>(null);
+  // Set once a newer version in another tab has taken the database over; nothing can be saved after that
+  const [storageClosed, setStorageClosed] = useState(false);
+
+  // Service worker: the whole app is cached for offline use; updates wait for the user
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker
+  } = useRegisterSW();
 
   const [recentNames, setRecentNames] = useState<string[]>(() => {
     try {
@@ -187,18 +614,44 @@ const App: React.FC = () => {
     }
   });
 
-  const [activeProjectId, setActiveProjectId] = useState<string>(() => {
-    return projects[0]?.id || '';
-  });
-
   const [isPressed, setIsPressed] = useState(false);
+  // 'single' shows the active project's big button; 'dashboard' tiles every project on today's list
+  const [layoutMode, setLayoutMode] = useState<'single' | 'dashboard'>(() => {
+    try {
+      return localStorage.getItem(LAYOUT_MODE_KEY) === 'dashboard' ? 'dashboard' : 'single';
+    } catch {
+      return 'single';
+    }
+  });
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [showFactoryResetConfirm, setShowFactoryResetConfirm] = useState(false);
   const [showProjectMenu, setShowProjectMenu] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showStepSettings, setShowStepSettings] = useState(false);
+  const [showTodayTaps, setShowTodayTaps] = useState(false);
+  const [showGoalSettings, setShowGoalSettings] = useState(false);
+  const [goalValue, setGoalValue] = useState('');
+  const [customStepValue, setCustomStepValue] = useState('');
   
   // Stats State
   const [showStats, setShowStats] = useState(false);
-  const [statsView, setStatsView] = useState<'overview' | 'history'>('overview');
+  const [statsView, setStatsView] = useState<'overview' | 'history' | 'chart' | 'calendar'>('overview');
+  const [statsGroupBy, setStatsGroupBy] = useState<'project' | 'tag'>('project');
+  const [statsGranularity, setStatsGranularity] = useState<Granularity>('day');
+  const [weekStartsOn, setWeekStartsOn] = useState<number>(() => {
+    try {
+      const saved = parseInt(localStorage.getItem(WEEK_STARTS_ON_KEY) || '', 10);
+      return isWeekday(saved) ? saved : DEFAULT_WEEK_STARTS_ON;
+    } catch {
+      return DEFAULT_WEEK_STARTS_ON;
+    }
+  });
+  const [chartType, setChartType] = useState<'bar' | 'line'>('bar');
+  const [chartShowAverage, setChartShowAverage] = useState(false);
+  const [chartProjectNames, setChartProjectNames] = useState<string[]>([]); // Empty = all projects combined
+  const [chartSelectedIndex, setChartSelectedIndex] = useState<number | null>(null);
+  const [calendarProjectName, setCalendarProjectName] = useState<string>('all');
+  const [calendarSelectedDate, setCalendarSelectedDate] = useState<string | null>(null);
   const [statsStartDate, setStatsStartDate] = useState<string>(() => {
     try {
       return localStorage.getItem(STATS_START_DATE_KEY) || getSixMonthsAgoString();
@@ -206,7 +659,28 @@ const App: React.FC = () => {
       return getSixMonthsAgoString();
     }
   });
+  // Presets are resolved against today on every render; 'custom' uses the start/end dates
+  const [statsRangePreset, setStatsRangePreset] = useState<RangePreset | 'custom'>(() => {
+    try {
+      const saved = localStorage.getItem(STATS_RANGE_PRESET_KEY);
+      return RANGE_PRESETS.some(p => p.value === saved) ? saved as RangePreset : 'custom';
+    } catch {
+      return 'custom';
+    }
+  });
+  const [statsEndDate, setStatsEndDate] = useState<string>(() => {
+    try {
+      return localStorage.getItem(STATS_END_DATE_KEY) || '';
+    } catch {
+      return '';
+    }
+  });
   const [showDateSettings, setShowDateSettings] = useState(false);
+  const [showDayStartSettings, setShowDayStartSettings] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showFeedbackSettings, setShowFeedbackSettings] = useState(false);
+  const [feedbackSettings, setFeedbackSettings] = useState<FeedbackSettings>(loadFeedbackSettings);
+  const [showCsvExport, setShowCsvExport] = useState(false);
 
   // Manual Log State
   const [showManualLog, setShowManualLog] = useState(false);
@@ -215,123 +689,429 @@ const App: React.FC = () => {
   const [manualLogProjectId, setManualLogProjectId] = useState<string>('');
 
   const [newProjectName, setNewProjectName] = useState('');
+  const [newProjectType, setNewProjectType] = useState<ProjectType>('counter');
+  const [newProjectUnit, setNewProjectUnit] = useState('');
+  const [newProjectDecimals, setNewProjectDecimals] = useState(1);
+  const [menuTagFilter, setMenuTagFilter] = useState<string | null>(null);
 
   // Editing state
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
   const [editingNameValue, setEditingNameValue] = useState('');
+  const [editingTagsValue, setEditingTagsValue] = useState('');
+  const [editingUnitValue, setEditingUnitValue] = useState('');
+  const [editingDecimals, setEditingDecimals] = useState(0);
+
+  // Typed but not yet recorded measurement values, by project id
+  const [measureInputs, setMeasureInputs] = useState<Record<string, string>>({});
+  const measureInputRef = useRef<HTMLInputElement>(null);
 
   // Deletion Confirmation State
   const [deleteTarget, setDeleteTarget] = useState<{ 
-    type: 'project' | 'log', 
+    type: 'project' | 'log' | 'purge', 
     projectId: string, 
     date?: string, 
     name?: string, 
     hasHistory?: boolean 
   } | null>(null);
 
+  // Undo / Redo State (session only)
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const [undoToast, setUndoToast] = useState<{ id: number, label: string } | null>(null);
+
+  // Backup Import State
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ backup: BackupFile, summary: BackupSummary } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
   // --- Derived State ---
 
-  const activeProject = projects.find(p => p.id === activeProjectId) || projects[0];
+  const activeProject = selectActiveProject(counterState);
 
-  useEffect(() => {
-    if (!activeProject) {
-      const today = getTodayString();
-      const visible = projects.find(p => p.lastActiveDate === today);
-      if (visible) {
-        setActiveProjectId(visible.id);
-      } else if (projects.length > 0) {
-        setActiveProjectId(projects[0].id);
-      } else {
-        const newDefault: Project = {
-          id: generateId(),
-          name: '默認計數 (Default)',
-          count: 0,
-          logs: {},
-          createdAt: Date.now(),
-          lastActiveDate: today
-        };
-        setProjects([newDefault]);
-        setActiveProjectId(newDefault.id);
-      }
-    }
-  }, [activeProject, projects]);
+  const activeTodayCount = activeProject?.logs[getTodayString()] || 0;
+  const activeIsMeasure = !!activeProject && isMeasure(activeProject);
+  // A measurement of 0 is still a value, so "no value yet" is the absence of an entry
+  const activeHasTodayValue = !!activeProject && hasLogOn(activeProject, getTodayString());
+  // Most recent value before today, shown until today's is entered
+  const activeLastValueDate = activeIsMeasure
+    ? Object.keys(activeProject!.logs).filter(d => d < getTodayString()).sort().pop()
+    : undefined;
+  const activeGoal = activeProject?.goal;
+  const goalProgress = activeGoal ? Math.min(activeTodayCount / activeGoal, 1) : 0;
+  const isGoalReached = !!activeGoal && activeTodayCount >= activeGoal;
+
+  // Streaks by trimmed name over the full history (not limited by the stats range)
+  const streaksByName = useMemo(() => selectStreaksByName(projects, getTodayString()), [projects, currentDay]);
+
+  const activeStreak = activeProject ? streaksByName[activeProject.name.trim()] : undefined;
 
   // Seed recent names
   useEffect(() => {
-    if (recentNames.length === 0 && projects.length > 0) {
+    if (isLoaded && recentNames.length === 0 && projects.length > 0) {
       const existingNames = Array.from(new Set(projects.map(p => p.name.trim()))).slice(0, 10);
       if (existingNames.length > 0) {
         setRecentNames(existingNames);
         localStorage.setItem(RECENT_NAMES_KEY, JSON.stringify(existingNames));
       }
     }
-  }, []);
+  }, [isLoaded]);
 
-  // --- Persistence ---
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
-  }, [projects]);
+    if (!offlineReady) return;
+    setDataNotice({ type: 'info', message: t('notice.offlineReady') });
+    setOfflineReady(false);
+  }, [offlineReady]);
 
-  // --- Handlers ---
+  // --- Persistence ---
 
-  const handleIncrement = useCallback(() => {
-    const today = getTodayString();
-    
-    setProjects(prev => prev.map(p => {
-      if (p.id === activeProjectId) {
-        const currentDaily = p.logs[today] || 0;
-        return {
-          ...p,
-          count: p.count + 1,
-          lastActiveDate: today, 
-          logs: {
-            ...p.logs,
-            [today]: currentDaily + 1
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const storage = await getStorageAdapter();
+      let migrated: Project[] = [];
+      let canPersist = true;
+
+      try {
+        const stored = await storage.loadData();
+        if (stored) {
+          const result = runMigrations(stored.data, stored.schemaVersion, migrationContext());
+          migrated = result.projects;
+          if (result.fromVersion !== result.toVersion) {
+            console.info(`Upgraded stored data from v${result.fromVersion} to v${result.toVersion}`);
+            setDataNotice({ type: 'info', message: t('notice.upgraded', { from: result.fromVersion, to: result.toVersion }) });
           }
-        };
+        }
+      } catch (e) {
+        // Never overwrite data we could not read: this session runs without saving
+        console.error("Failed to load data", e);
+        canPersist = false;
+        const detail = e instanceof MigrationError
+          ? t('notice.upgradeFailedAt', { from: e.fromVersion, to: CURRENT_SCHEMA_VERSION, failedAt: e.failedAt })
+          : t('notice.unreadable');
+        setDataNotice({ type: 'error', message: t('notice.upgradeFailed', { detail }) });
       }
-      return p;
+      if (cancelled) return;
+
+      storageRef.current = canPersist ? storage : null;
+      if (canPersist) {
+        storage.onClosed(() => {
+          storageRef.current = null;
+          setStorageClosed(true);
+        });
+      }
+      store.setState(prepareLoadedState(migrated));
+      setIsLoaded(true);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !storageRef.current) return;
+    storageRef.current.saveProjects(projects).catch(e => {
+      console.error("Failed to save data", e);
+    });
+  }, [projects, isLoaded]);
+
+  // Live sync with other open tabs. Remote deltas are also applied to the undo/redo
+  // snapshots so undoing a local action never reverts another tab's taps.
+  useEffect(() => {
+    if (!isLoaded || !storageRef.current) return;
+    const rebase = (entries: HistoryEntry[], changes: ProjectChange[]) => entries.map(entry => ({
+      ...entry,
+      state: { ...entry.state, projects: applyProjectChanges(entry.state.projects, changes) }
     }));
+    const sync = createTabSync(store, changes => {
+      setUndoStack(prev => rebase(prev, changes));
+      setRedoStack(prev => rebase(prev, changes));
+    });
+    return () => sync.close();
+  }, [isLoaded, store]);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), UNDO_TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  // --- Day Rollover ---
+
+  // Runs the same carryover as on startup for the new day. Snapshots from the previous day
+  // would undo it (and bring back that day's list dates), so the history starts over.
+  const rollOverTo = useCallback((today: string) => {
+    const state = store.getState();
+    store.setState({ ...state, projects: applyCarryover(state.projects, today) });
+    clearHistory();
+    setCurrentDay(today);
+    setManualLogDate(today);
+  }, [store]);
+
+  const checkDay = useCallback(() => {
+    const today = getTodayString();
+    if (today === currentDay) return;
+    rollOverTo(today);
+    setDataNotice({ type: 'info', message: t('notice.newDay', { date: formatShortDate(today, locale) }) });
+  }, [currentDay, rollOverTo, t, locale]);
+
+  // Catches the day boundary while the app stays open (e.g. overnight on a wall tablet).
+  // Timers are throttled in background tabs, so it is also checked when the page is shown again.
+  // Commands check it too, since a tap booked to the new day would otherwise skip the carryover.
+  useEffect(() => {
+    if (!isLoaded) return;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') checkDay();
+    };
+    const timer = setInterval(checkDay, DAY_CHECK_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isLoaded, checkDay]);
+
+  // --- Undo / Redo ---
+
+  // Runs store commands as one undoable entry and records the previous state when anything changed
+  const runCommand = useCallback((label: string, command: CounterCommand | CounterCommand[]) => {
+    if (storageClosed) return false;
+    checkDay();
+    const prevState = store.getState();
+    (Array.isArray(command) ? command : [command]).forEach(c => store.dispatch(c));
+    if (store.getState() === prevState) return false;
+    setUndoStack(prev => [...prev, { label, state: prevState }].slice(-MAX_HISTORY));
+    setRedoStack([]);
+    setUndoToast({ id: Date.now(), label });
+    return true;
+  }, [store, checkDay, storageClosed]);
+
+  // Whole-dataset changes (factory reset, import, day rollover) are not undoable; older entries would silently revert them
+  const clearHistory = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+    setUndoToast(null);
+  };
+
+  const handleUndo = useCallback(() => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, { label: entry.label, state: store.getState() }]);
+    store.setState(entry.state);
+    setUndoToast(null);
+  }, [undoStack, store]);
+
+  const handleRedo = useCallback(() => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, { label: entry.label, state: store.getState() }]);
+    store.setState(entry.state);
+    setUndoToast(null);
+  }, [redoStack, store]);
+
+  // --- Handlers ---
+
+  const incrementProject = useCallback((project: Project) => {
+    const step = getStep(project);
+    const before = project.logs[getTodayString()] || 0;
+    if (runCommand(`+${step} ${project.name}`, { type: 'increment', projectId: project.id })) {
+      playFeedback(getTapFeedbackKind(before, before + step, project.goal), feedbackSettings);
+    }
+  }, [runCommand, feedbackSettings]);
+
+  // Removes one step from today's log, never going below zero
+  const decrementProject = useCallback((project: Project) => {
+    const amount = Math.min(getStep(project), project.logs[getTodayString()] || 0);
+    if (amount <= 0) return;
+    if (runCommand(`-${amount} ${project.name}`, { type: 'decrement', projectId: project.id })) {
+      playFeedback('decrement', feedbackSettings);
+    }
+  }, [runCommand, feedbackSettings]);
+
+  const handleIncrement = useCallback(() => {
+    if (!activeProject) return;
+    // Measurements have no tap; Space/Enter jumps to the value field instead
+    if (isMeasure(activeProject)) {
+      measureInputRef.current?.focus();
+      return;
+    }
+    incrementProject(activeProject);
 
     setIsPressed(true);
     setTimeout(() => setIsPressed(false), 100);
-  }, [activeProjectId]);
+  }, [activeProject, incrementProject]);
+
+  const handleDecrement = useCallback(() => {
+    if (activeProject) decrementProject(activeProject);
+  }, [activeProject, decrementProject]);
+
+  // Records the typed value as today's measurement (any number, 0 and below included)
+  const handleRecordValue = (project: Project, e?: React.FormEvent) => {
+    e?.preventDefault();
+    const value = parseFloat(measureInputs[project.id] ?? '');
+    if (!Number.isFinite(value)) return;
+    if (project.id !== activeProjectId) store.dispatch({ type: 'select', projectId: project.id });
+    if (runCommand(`${project.name}: ${formatMeasure(value, project, locale)}`, { type: 'setLog', projectId: project.id, date: getTodayString(), count: value })) {
+      playFeedback('tap', feedbackSettings);
+    }
+    setMeasureInputs(prev => ({ ...prev, [project.id]: '' }));
+  };
 
-  const handleReset = useCallback(() => {
+  // Removes today's measurement; a value of 0 is recorded like any other, so clearing is its own action
+  const handleClearValue = (project: Project) => {
     const today = getTodayString();
-    setProjects(prev => prev.map(p => {
-      if (p.id === activeProjectId) {
-        return { ...p, count: 0, lastActiveDate: today };
-      }
-      return p;
-    }));
+    runCommand(t('history.deleteLog', { date: formatShortDate(today, locale) }), { type: 'deleteLog', projectId: project.id, date: today });
+  };
+
+  // Dashboard cards also select their project, so keyboard shortcuts and settings follow the last tap
+  const handleDashboardTap = (project: Project, direction: 1 | -1) => {
+    if (project.id !== activeProjectId) store.dispatch({ type: 'select', projectId: project.id });
+    if (direction > 0) {
+      incrementProject(project);
+    } else {
+      decrementProject(project);
+    }
+  };
+
+  const handleLayoutModeToggle = () => {
+    const next = layoutMode === 'dashboard' ? 'single' : 'dashboard';
+    setLayoutMode(next);
+    localStorage.setItem(LAYOUT_MODE_KEY, next);
+  };
+
+  const updateFeedbackSettings = (changes: Partial<FeedbackSettings>) => {
+    const next = { ...feedbackSettings, ...changes };
+    setFeedbackSettings(next);
+    saveFeedbackSettings(next);
+  };
+
+  const handleRemoveTapEvent = (projectId: string, eventId: string) => {
+    const event = projects.find(p => p.id === projectId)?.events.find(e => e.id === eventId);
+    if (!event) return;
+    const delta = `${event.delta > 0 ? '+' : ''}${event.delta}`;
+    runCommand(t('history.removeTap', { time: formatTime(event.at, locale), delta }), { type: 'removeTapEvent', projectId, eventId });
+  };
+
+  const handleSetStep = (step: number) => {
+    if (!Number.isInteger(step) || step <= 0) return;
+    store.dispatch({ type: 'setStep', projectId: activeProjectId, step });
+    setCustomStepValue('');
+    setShowStepSettings(false);
+  };
+
+  // An empty or zero value clears the goal
+  const handleSetGoal = () => {
+    const goal = parseInt(goalValue, 10);
+    store.dispatch({ type: 'setGoal', projectId: activeProjectId, goal: goal > 0 ? goal : null });
+    setShowGoalSettings(false);
+  };
+
+  const handleReset = useCallback(() => {
+    if (activeProject) {
+      runCommand(t('history.reset', { name: activeProject.name }), { type: 'reset', projectId: activeProject.id });
+    }
     setShowResetConfirm(false);
-  }, [activeProjectId]);
+  }, [activeProject, runCommand, t]);
 
   const handleFactoryReset = () => {
-    localStorage.removeItem(STORAGE_KEY);
+    storageRef.current?.clear().catch(e => {
+      console.error("Failed to clear data", e);
+    });
     localStorage.removeItem(RECENT_NAMES_KEY);
-    localStorage.removeItem(LEGACY_STORAGE_KEY);
     localStorage.removeItem(STATS_START_DATE_KEY);
+    localStorage.removeItem(STATS_END_DATE_KEY);
+    localStorage.removeItem(STATS_RANGE_PRESET_KEY);
+    localStorage.removeItem(DAY_START_HOUR_KEY);
+    localStorage.removeItem(WEEK_STARTS_ON_KEY);
+    setWeekStartsOn(DEFAULT_WEEK_STARTS_ON);
+    localStorage.removeItem(LAYOUT_MODE_KEY);
+    setLayoutMode('single');
+    localStorage.removeItem(FEEDBACK_SETTINGS_KEY);
+    setFeedbackSettings(loadFeedbackSettings());
+    configureDayStartHour(0);
+    setDayStartHour(0);
     
-    const today = getTodayString();
-    const newDefault: Project = {
-      id: generateId(),
-      name: '默認計數 (Default)',
-      count: 0,
-      logs: {},
-      createdAt: Date.now(),
-      lastActiveDate: today
-    };
-    
-    setProjects([newDefault]);
-    setActiveProjectId(newDefault.id);
+    store.setState(createInitialState(getTodayString(), Date.now()));
+    clearHistory();
+    setCurrentDay(getTodayString());
     setRecentNames([]);
     setStatsStartDate(getSixMonthsAgoString());
+    setStatsEndDate('');
+    setStatsRangePreset('custom');
     setShowFactoryResetConfirm(false);
     setShowProjectMenu(false);
-    alert("已恢復出廠設定，所有資料已清除。");
+    alert(t('notice.factoryResetDone'));
+  };
+
+  // --- Backup Handlers ---
+
+  const handleExportBackup = () => {
+    const backup = createBackup(projects, recentNames, statsStartDate, dayStartHour, weekStartsOn);
+    downloadFile(
+      JSON.stringify(backup, null, 2),
+      `bigtap-backup-${getTodayString()}.json`,
+      'application/json'
+    );
+  };
+
+  const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      const backup = parseBackup(await file.text(), t);
+      setImportError(null);
+      setPendingImport({ backup, summary: summarizeBackup(backup) });
+    } catch (err) {
+      setPendingImport(null);
+      setImportError(err instanceof Error ? err.message : t('import.errorUnreadableFile'));
+    }
+  };
+
+  const applyImport = (mode: 'replace' | 'merge') => {
+    if (!pendingImport) return;
+    const { backup } = pendingImport;
+
+    let nextProjects: Project[];
+    let nextRecents: string[];
+
+    if (mode === 'replace') {
+      nextProjects = backup.projects;
+      nextRecents = backup.recentNames.slice(0, 10);
+      // Backups only carry the start date, so the restored range runs until today
+      handleCustomRangeChange(backup.settings.statsStartDate, getTodayString());
+    } else {
+      nextProjects = mergeProjects(projects, backup.projects);
+      nextRecents = Array.from(new Set([...recentNames, ...backup.recentNames])).slice(0, 10);
+    }
+
+    // Settings first, so the carryover below uses the imported day start
+    if (mode === 'replace' && backup.settings.dayStartHour !== undefined) {
+      handleDayStartHourChange(backup.settings.dayStartHour);
+    }
+    if (mode === 'replace' && backup.settings.weekStartsOn !== undefined) {
+      handleWeekStartsOnChange(backup.settings.weekStartsOn);
+    }
+    // A backup from an earlier day gets the same carryover as on load.
+    // The store moves the selection when the active project is not in the imported list.
+    if (nextProjects.length > 0) {
+      store.setState({ projects: applyCarryover(nextProjects, getTodayString()), activeProjectId });
+    }
+    setRecentNames(nextRecents);
+    localStorage.setItem(RECENT_NAMES_KEY, JSON.stringify(nextRecents));
+    clearHistory();
+
+    setPendingImport(null);
+    setShowProjectMenu(false);
   };
 
   const handleCreateProject = (e: React.FormEvent) => {
@@ -339,56 +1119,31 @@ const App: React.FC = () => {
     const trimmedName = newProjectName.trim();
     if (!trimmedName) return;
 
-    const today = getTodayString();
-    const archivedProject = projects.find(p => 
-      p.name.trim().toLowerCase() === trimmedName.toLowerCase() && 
-      p.lastActiveDate !== today
-    );
+    checkDay();
+    // A project created while filtering by a tag gets that tag
+    store.dispatch({
+      type: 'createProject',
+      name: trimmedName,
+      tags: activeMenuTag ? [activeMenuTag] : undefined,
+      measure: newProjectType === 'measure' ? { unit: newProjectUnit, decimals: newProjectDecimals } : undefined
+    });
 
-    if (archivedProject) {
-      setProjects(prev => prev.map(p => {
-        if (p.id === archivedProject.id) {
-          return {
-            ...p,
-            lastActiveDate: today,
-            count: 0
-          };
-        }
-        return p;
-      }));
-      setActiveProjectId(archivedProject.id);
-    } else {
-      const newProject: Project = {
-        id: generateId(),
-        name: trimmedName,
-        count: 0,
-        logs: {},
-        createdAt: Date.now(),
-        lastActiveDate: today
-      };
-      setProjects(prev => [...prev, newProject]);
-      setActiveProjectId(newProject.id);
-    }
-    
     const updatedRecents = [trimmedName, ...recentNames.filter(n => n !== trimmedName)].slice(0, 10);
     setRecentNames(updatedRecents);
     localStorage.setItem(RECENT_NAMES_KEY, JSON.stringify(updatedRecents));
 
     setNewProjectName('');
+    setNewProjectUnit('');
     setShowProjectMenu(false);
   };
 
   const requestDeleteProject = (p: Project, e: React.MouseEvent) => {
     e.stopPropagation();
-    const today = getTodayString();
-    const logDates = Object.keys(p.logs);
-    const hasHistory = logDates.some(date => date !== today && p.logs[date] > 0);
-
     setDeleteTarget({
       type: 'project',
       projectId: p.id,
       name: p.name,
-      hasHistory: hasHistory
+      hasHistory: hasHistoryBefore(p, getTodayString())
     });
   };
 
@@ -396,15 +1151,20 @@ const App: React.FC = () => {
     e.stopPropagation();
     setEditingProjectId(p.id);
     setEditingNameValue(p.name);
+    setEditingTagsValue((p.tags ?? []).join(', '));
+    setEditingUnitValue(p.unit ?? '');
+    setEditingDecimals(getDecimals(p));
   };
 
   const saveEditingProject = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (editingProjectId && editingNameValue.trim()) {
-      const today = getTodayString();
-      setProjects(prev => prev.map(p => 
-        p.id === editingProjectId ? { ...p, name: editingNameValue.trim(), lastActiveDate: today } : p
-      ));
+      // Name, tags and format are undone together
+      runCommand(t('history.edit', { name: editingNameValue.trim() }), [
+        { type: 'rename', projectId: editingProjectId, name: editingNameValue },
+        { type: 'setTags', projectId: editingProjectId, tags: parseTagInput(editingTagsValue) },
+        { type: 'setMeasureFormat', projectId: editingProjectId, format: { unit: editingUnitValue, decimals: editingDecimals } }
+      ]);
     }
     setEditingProjectId(null);
     setEditingNameValue('');
@@ -416,21 +1176,12 @@ const App: React.FC = () => {
     setEditingNameValue('');
   };
 
-  const visibleProjects = useMemo(() => {
-    const todayStr = getTodayString();
-    const sorter = (a: Project, b: Project) => {
-      if (a.id === activeProjectId) return -1;
-      if (b.id === activeProjectId) return 1;
-      return a.name.localeCompare(b.name);
-    };
-
-    return projects.filter(p => {
-      const isForToday = p.lastActiveDate === todayStr;
-      const isCurrent = p.id === activeProjectId;
-      return isForToday || isCurrent;
-    }).sort(sorter);
+  const visibleProjects = useMemo(() => selectVisibleProjects(counterState, getTodayString()), [counterState, currentDay]);
 
-  }, [projects, activeProjectId]);
+  // Tag filter of the project menu; falls back to all when no listed project has the tag anymore
+  const menuTags = useMemo(() => selectAllTags(visibleProjects), [visibleProjects]);
+  const activeMenuTag = menuTagFilter && menuTags.find(tag => tag.toLowerCase() === menuTagFilter.toLowerCase()) || null;
+  const menuProjects = activeMenuTag ? visibleProjects.filter(p => hasTag(p, activeMenuTag)) : visibleProjects;
 
   const requestDeleteLog = (projectId: string, date: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -444,81 +1195,67 @@ const App: React.FC = () => {
   const executeDelete = () => {
     if (!deleteTarget) return;
 
-    const today = getTodayString();
-
     if (deleteTarget.type === 'project') {
-      const id = deleteTarget.projectId;
-      
-      if (deleteTarget.hasHistory) {
-        setProjects(prev => prev.map(p => {
-          if (p.id === id) {
-             const newLogs = { ...p.logs };
-             delete newLogs[today]; 
-             return {
-               ...p,
-               count: 0,
-               lastActiveDate: 'ARCHIVED',
-               logs: newLogs
-             };
-          }
-          return p;
-        }));
-
-        if (activeProjectId === id) {
-          const remainingVisible = projects.filter(p => p.id !== id && p.lastActiveDate === today);
-          if (remainingVisible.length > 0) {
-            setActiveProjectId(remainingVisible[0].id);
-          } else {
-             const newDefault: Project = {
-              id: generateId(),
-              name: '默認計數 (Default)',
-              count: 0,
-              logs: {},
-              createdAt: Date.now(),
-              lastActiveDate: today
-            };
-            setProjects(prev => [...prev, newDefault]);
-            setActiveProjectId(newDefault.id);
-          }
-        }
-
-      } else {
-        const remaining = projects.filter(p => p.id !== id);
-        if (remaining.length === 0) {
-          const newDefault: Project = {
-            id: generateId(),
-            name: '新項目 (New Item)',
-            count: 0,
-            logs: {},
-            createdAt: Date.now(),
-            lastActiveDate: today
-          };
-          setProjects([newDefault]);
-          setActiveProjectId(newDefault.id);
-        } else {
-          setProjects(remaining);
-          if (activeProjectId === id) {
-            const nextVisible = remaining.find(p => p.lastActiveDate === today) || remaining[0];
-            setActiveProjectId(nextVisible.id);
-          }
-        }
-      }
+      // The store archives projects with history and deletes the rest
+      runCommand(t(deleteTarget.hasHistory ? 'history.archive' : 'history.delete', { name: deleteTarget.name ?? '' }), { type: 'archive', projectId: deleteTarget.projectId });
     } else if (deleteTarget.type === 'log') {
       const { projectId, date } = deleteTarget;
       if (date) {
-        setProjects(prev => prev.map(p => {
-          if(p.id === projectId) {
-            const newLogs = { ...p.logs };
-            delete newLogs[date];
-            return { ...p, logs: newLogs };
-          }
-          return p;
-        }));
+        runCommand(t('history.deleteLog', { date: formatShortDate(date, locale) }), { type: 'deleteLog', projectId, date });
       }
+    } else if (deleteTarget.type === 'purge') {
+      runCommand(t('history.purge', { name: deleteTarget.name ?? '' }), { type: 'purge', projectId: deleteTarget.projectId });
     }
     setDeleteTarget(null);
   };
 
+  // --- Archive Logic ---
+
+  const archivedProjects = useMemo(() => {
+    return projects
+      .filter(p => p.lastActiveDate === ARCHIVED)
+      .map(p => {
+        const loggedDates = Object.keys(p.logs).filter(d => hasLogOn(p, d)).sort();
+        return {
+          project: p,
+          // Measurements show their latest value instead of a total
+          total: isMeasure(p) ? null : Object.values(p.logs).reduce((sum: number, c) => sum + (c as number), 0),
+          lastLoggedDate: loggedDates.length > 0 ? loggedDates[loggedDates.length - 1] : null
+        };
+      })
+      .sort((a, b) => (b.lastLoggedDate || '').localeCompare(a.lastLoggedDate || ''));
+  }, [projects]);
+
+  const handleRestoreProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project) return;
+    runCommand(t('history.restore', { name: project.name }), { type: 'restore', projectId: id });
+    setShowArchive(false);
+  };
+
+  const requestPurgeProject = (p: Project) => {
+    setDeleteTarget({
+      type: 'purge',
+      projectId: p.id,
+      name: p.name
+    });
+  };
+
+  // Today's journal for the active project, newest first, with the gap to the previous tap
+  const todayTapEvents = useMemo(() => {
+    if (!activeProject) return [];
+    const today = getTodayString();
+    const events = activeProject.events
+      .filter(e => e.date === today)
+      .sort((a, b) => a.at - b.at);
+    return events
+      .map((event, index) => ({
+        event,
+        gap: index > 0 ? event.at - events[index - 1].at : null
+      }))
+      .reverse();
+  }, [activeProject, currentDay]);
+
   // --- Manual Log Logic ---
 
   // Get unique projects for selector, sorted by newest first, limited to 10
@@ -551,33 +1288,16 @@ const App: React.FC = () => {
     }
   }, [showManualLog, uniqueProjectsForSelector, manualLogProjectId]);
 
+  const manualLogProject = projects.find(p => p.id === manualLogProjectId);
+  const manualLogIsMeasure = !!manualLogProject && isMeasure(manualLogProject);
+
   const handleManualLogSubmit = () => {
     if (!manualLogProjectId || !manualLogCount) return;
-    const count = parseInt(manualLogCount, 10);
+    // Measurements keep their decimals; the store rounds them to the project's precision
+    const count = manualLogIsMeasure ? parseFloat(manualLogCount) : parseInt(manualLogCount, 10);
     if (isNaN(count)) return;
 
-    const today = getTodayString();
-    
-    setProjects(prev => prev.map(p => {
-      if (p.id === manualLogProjectId) {
-        const newLogs = { ...p.logs };
-        if (count === 0) {
-          delete newLogs[manualLogDate];
-        } else {
-          newLogs[manualLogDate] = count;
-        }
-        
-        // If date is today, also update visual count
-        const isToday = manualLogDate === today;
-        return {
-          ...p,
-          logs: newLogs,
-          count: isToday ? count : p.count,
-          lastActiveDate: isToday ? today : p.lastActiveDate
-        };
-      }
-      return p;
-    }));
+    runCommand(t('history.manualLog', { date: formatShortDate(manualLogDate, locale) }), { type: 'setLog', projectId: manualLogProjectId, date: manualLogDate, count });
 
     setShowManualLog(false);
     setShowStats(true); // Re-open stats modal after submitting
@@ -585,73 +1305,331 @@ const App: React.FC = () => {
     setManualLogDate(getTodayString());
   };
 
-  const handleStatsDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    setStatsStartDate(val);
-    localStorage.setItem(STATS_START_DATE_KEY, val);
+  // Measurements have no "0 removes the day", so their entries are cleared here
+  const handleManualLogClear = () => {
+    if (!manualLogProjectId) return;
+    runCommand(t('history.deleteLog', { date: formatShortDate(manualLogDate, locale) }), { type: 'deleteLog', projectId: manualLogProjectId, date: manualLogDate });
+
+    setShowManualLog(false);
+    setShowStats(true);
+    setManualLogCount('');
+    setManualLogDate(getTodayString());
+  };
+
+  const handleExportCsv = (layout: 'long' | 'wide') => {
+    const csv = layout === 'long'
+      ? buildLongCsv(projects, statsRange, t)
+      : buildWideCsv(projects, statsRange, t);
+    downloadFile(csv, `bigtap-${layout}-${statsRange.start || 'all'}_${statsRange.end}.csv`, 'text/csv;charset=utf-8');
+    setShowCsvExport(false);
+  };
+
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    localStorage.setItem(LOCALE_KEY, next);
+  };
+
+  // Moving the boundary can start a new day right away, or go back to the previous one
+  const handleDayStartHourChange = (hour: number) => {
+    configureDayStartHour(hour);
+    setDayStartHour(getDayStartHour());
+    localStorage.setItem(DAY_START_HOUR_KEY, String(getDayStartHour()));
+    if (getTodayString() !== currentDay) rollOverTo(getTodayString());
+  };
+
+  const handleWeekStartsOnChange = (day: number) => {
+    setWeekStartsOn(day);
+    localStorage.setItem(WEEK_STARTS_ON_KEY, String(day));
+  };
+
+  const handleRangePresetChange = (preset: RangePreset) => {
+    setStatsRangePreset(preset);
+    localStorage.setItem(STATS_RANGE_PRESET_KEY, preset);
+  };
+
+  // Editing either date switches to a custom range; an end date of today or later stays open-ended
+  const handleCustomRangeChange = (start: string, end: string) => {
+    if (!start || !end) return;
+    const openEnd = end >= getTodayString() ? '' : end;
+    setStatsRangePreset('custom');
+    setStatsStartDate(start);
+    setStatsEndDate(openEnd);
+    localStorage.setItem(STATS_RANGE_PRESET_KEY, 'custom');
+    localStorage.setItem(STATS_START_DATE_KEY, start);
+    localStorage.setItem(STATS_END_DATE_KEY, openEnd);
   };
 
 
   // --- Stats Calculation ---
+
+  const statsRange = useMemo<DateRange>(() => {
+    const today = getTodayString();
+    if (statsRangePreset !== 'custom') return getPresetRange(statsRangePreset, today, weekStartsOn);
+    return { start: statsStartDate, end: statsEndDate && statsEndDate < today ? statsEndDate : today };
+  }, [statsRangePreset, statsStartDate, statsEndDate, weekStartsOn, currentDay]);
+
+  const previousRange = useMemo(() => getPreviousRange(statsRange), [statsRange]);
   
-  const aggregatedStats = useMemo(() => {
-    const statsByName: Record<string, { total: number, occurrences: number }> = {};
+  const aggregatedStats = useMemo(
+    () => selectAggregatedStats(projects, statsRange, getTodayString(), { granularity: statsGranularity, weekStartsOn }),
+  [projects, statsRange, currentDay, statsGranularity, weekStartsOn]);
+
+  const previousStats = useMemo(
+    () => previousRange ? selectAggregatedStats(projects, previousRange, getTodayString()) : null,
+  [projects, previousRange, currentDay]);
+
+  // Totals by name in the period right before the range, for the change indicators
+  const previousTotals = useMemo(() => {
+    if (!previousStats) return null;
+    const totals: Record<string, number> = {};
+    previousStats.forEach(item => {
+      totals[item.name] = item.total;
+    });
+    return totals;
+  }, [previousStats]);
+
+  // Ranked projects, followed by those logged only in the previous period (shown as -100%)
+  const overviewStats = useMemo(() => {
+    if (!previousStats) return aggregatedStats;
+    const names = new Set(aggregatedStats.map(item => item.name));
+    const dropped = previousStats
+      .filter(item => !names.has(item.name))
+      .map(item => ({ ...item, total: 0, occurrences: 0, periods: 0, goalDays: 0, goalHitRate: null }));
+    return [...aggregatedStats, ...dropped];
+  }, [aggregatedStats, previousStats]);
+
+  const measureStats = useMemo(() => selectMeasureStats(projects, statsRange), [projects, statsRange]);
+
+  const tagStats = useMemo(
+    () => selectTagStats(projects, statsRange, { granularity: statsGranularity, weekStartsOn }),
+  [projects, statsRange, statsGranularity, weekStartsOn]);
+  const statsTags = useMemo(() => selectAllTags(projects), [projects]);
+
+  // Daily breakdown (also used by the calendar) and the one for the selected granularity
+  const historyData = useMemo(() => selectHistoryData(projects, statsRange), [projects, statsRange]);
+  const periodHistory = useMemo(
+    () => statsGranularity === 'day'
+      ? historyData
+      : selectHistoryData(projects, statsRange, { granularity: statsGranularity, weekStartsOn }),
+  [historyData, projects, statsRange, statsGranularity, weekStartsOn]);
+
+  const granularityInfo = GRANULARITIES.find(g => g.value === statsGranularity)!;
+
+  // Names offered by the chart and calendar, which only show counted totals
+  const counterProjectNames = useMemo(() =>
+    Array.from(new Set<string>(projects.filter(p => !isMeasure(p)).map(p => p.name.trim()))).sort((a, b) => a.localeCompare(b)),
+  [projects]);
+
+  // One value per day of the range for each selected project (or all combined), oldest first
+  const chartData = useMemo(() => {
+    const daysByDate = new Map<string, typeof historyData[number]>(historyData.map(day => [day.date, day]));
+    // An open start begins at the first logged day (historyData is newest first)
+    const start = statsRange.start || historyData[historyData.length - 1]?.date || statsRange.end;
+    const dates: string[] = [];
+    for (let date = start; date <= statsRange.end; date = shiftDate(date, 1)) dates.push(date);
+
+    const names = chartProjectNames.filter(name => counterProjectNames.includes(name));
+    const series = (names.length > 0 ? names : [null]).map((name, i) => {
+      const values = dates.map(date => {
+        const day = daysByDate.get(date);
+        if (!day) return 0;
+        if (name === null) return day.total;
+        return day.items.reduce((sum, item) => item.name.trim() === name ? sum + item.count : sum, 0);
+      });
+      return { name, values, average: getMovingAverage(values, MOVING_AVERAGE_DAYS), color: CHART_COLORS[i % CHART_COLORS.length] };
+    });
+
+    // Bars are stacked, so their scale follows the daily sum of all series
+    const totals = dates.map((_, i) => series.reduce((sum, s) => sum + s.values[i], 0));
+    const max = chartType === 'bar'
+      ? Math.max(0, ...totals)
+      : Math.max(0, ...series.flatMap(s => s.values));
+    return { dates, series, totals, totalAverage: getMovingAverage(totals, MOVING_AVERAGE_DAYS), max };
+  }, [historyData, statsRange, chartProjectNames, counterProjectNames, chartType]);
 
+  const chartSlot = CHART_WIDTH / Math.max(chartData.dates.length, 1);
+  // A day picked before the range or selection changed may no longer exist
+  const chartSelected = chartSelectedIndex !== null && chartSelectedIndex < chartData.dates.length ? chartSelectedIndex : null;
+
+  const toggleChartProject = (name: string) => {
+    setChartProjectNames(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  // Month grids over the stats range (newest first) for the selected project or all combined
+  const calendarData = useMemo(() => {
+    const totals: Record<string, number> = {};
     projects.forEach(p => {
-      const normalizedName = p.name.trim(); 
-      if (!statsByName[normalizedName]) {
-        statsByName[normalizedName] = { total: 0, occurrences: 0 };
-      }
+      if (isMeasure(p) || (calendarProjectName !== 'all' && p.name.trim() !== calendarProjectName)) return;
       Object.entries(p.logs).forEach(([date, count]) => {
-        if (date >= statsStartDate && (count as number) > 0) {
-          statsByName[normalizedName].total += (count as number);
-          statsByName[normalizedName].occurrences += 1; 
+        if (isInRange(date, statsRange) && (count as number) > 0) {
+          totals[date] = (totals[date] || 0) + (count as number);
         }
       });
     });
+    const max = Math.max(0, ...Object.values(totals));
+
+    // An open start begins at the first logged day
+    const start = statsRange.start || Object.keys(totals).sort()[0] || statsRange.end;
+    const [startYear, startMonth] = start.split('-').map(Number);
+    let [year, month] = statsRange.end.split('-').map(Number);
+    const months: { key: string, label: string, firstWeekday: number, days: { date: string, day: number, count: number, inRange: boolean }[] }[] = [];
+
+    while (year > startYear || (year === startYear && month >= startMonth)) {
+      const daysInMonth = new Date(year, month, 0).getDate();
+      const days = Array.from({ length: daysInMonth }, (_, i) => {
+        const date = `${year}-${padNumber(month)}-${padNumber(i + 1)}`;
+        return { date, day: i + 1, count: totals[date] || 0, inRange: date >= start && date <= statsRange.end };
+      });
+      months.push({
+        key: `${year}-${padNumber(month)}`,
+        label: formatMonthYear(year, month, locale),
+        firstWeekday: (new Date(year, month - 1, 1).getDay() - weekStartsOn + 7) % 7,
+        days
+      });
+      month -= 1;
+      if (month === 0) {
+        month = 12;
+        year -= 1;
+      }
+    }
 
-    return Object.entries(statsByName)
-      .map(([name, data]) => ({
-        name,
-        total: data.total,
-        occurrences: data.occurrences
-      }))
-      .filter(item => item.total > 0)
-      .sort((a, b) => b.total - a.total);
-  }, [projects, statsStartDate]);
+    return { months, max };
+  }, [projects, statsRange, calendarProjectName, locale, weekStartsOn]);
+
+  const weekdayNames = useMemo(() => getWeekdayLabels(locale, 'long'), [locale]);
+
+  // Calendar columns follow the configured week start
+  const weekdayLabels = useMemo(() => {
+    const labels = getWeekdayLabels(locale);
+    return [...labels.slice(weekStartsOn), ...labels.slice(0, weekStartsOn)];
+  }, [locale, weekStartsOn]);
+
+  const calendarSelectedDay = calendarSelectedDate
+    ? historyData.find(d => d.date === calendarSelectedDate)
+    : undefined;
+
+  // --- Keyboard Shortcuts ---
+
+  // Stable order for number/arrow keys (the menu list puts the active project first)
+  const shortcutProjects = useMemo(
+    () => [...visibleProjects].sort((a, b) => a.name.localeCompare(b.name)),
+  [visibleProjects]);
+
+  // Open overlays from top to bottom, so Esc closes the one in front
+  const overlays: { isOpen: boolean, close: () => void }[] = [
+    { isOpen: showShortcuts, close: () => setShowShortcuts(false) },
+    { isOpen: !!calendarSelectedDay, close: () => setCalendarSelectedDate(null) },
+    { isOpen: showDateSettings, close: () => setShowDateSettings(false) },
+    { isOpen: showCsvExport, close: () => setShowCsvExport(false) },
+    { isOpen: !!(pendingImport || importError), close: () => { setPendingImport(null); setImportError(null); } },
+    { isOpen: !!deleteTarget, close: () => setDeleteTarget(null) },
+    { isOpen: showDayStartSettings, close: () => setShowDayStartSettings(false) },
+    { isOpen: showFeedbackSettings, close: () => setShowFeedbackSettings(false) },
+    { isOpen: showFactoryResetConfirm, close: () => setShowFactoryResetConfirm(false) },
+    { isOpen: showManualLog, close: () => { setShowManualLog(false); setShowStats(true); } },
+    { isOpen: editingProjectId !== null, close: () => { setEditingProjectId(null); setEditingNameValue(''); } },
+    { isOpen: showArchive, close: () => setShowArchive(false) },
+    { isOpen: showResetConfirm, close: () => setShowResetConfirm(false) },
+    { isOpen: showStepSettings, close: () => setShowStepSettings(false) },
+    { isOpen: showGoalSettings, close: () => setShowGoalSettings(false) },
+    { isOpen: showTodayTaps, close: () => setShowTodayTaps(false) },
+    { isOpen: showStats, close: () => setShowStats(false) },
+    { isOpen: showProjectMenu, close: () => setShowProjectMenu(false) }
+  ];
+
+  const selectShortcutProject = (index: number) => {
+    const project = shortcutProjects[index];
+    if (project) store.dispatch({ type: 'select', projectId: project.id });
+  };
 
-  const historyData = useMemo(() => {
-    const allDates = new Set<string>();
-    projects.forEach(p => {
-      Object.keys(p.logs).forEach(d => {
-        if (d >= statsStartDate) {
-          allDates.add(d);
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (storageClosed) return;
+    if (e.key === 'Escape') {
+      const top = overlays.find(o => o.isOpen);
+      if (top) {
+        e.preventDefault();
+        top.close();
+      }
+      return;
+    }
+
+    // Counting and navigation only apply to the main screen
+    if (e.altKey || isTypingTarget(e.target) || overlays.some(o => o.isOpen)) return;
+
+    const key = e.key.toLowerCase();
+    if (e.ctrlKey || e.metaKey) {
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
         }
-      });
-    });
+      }
+      return;
+    }
 
-    const sortedDates = Array.from(allDates).sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+    const currentIndex = shortcutProjects.findIndex(p => p.id === activeProjectId);
+
+    switch (key) {
+      case ' ':
+      case 'enter':
+        if (isActivatableTarget(e.target)) return;
+        e.preventDefault();
+        if (!e.repeat) handleIncrement();
+        break;
+      case '-':
+      case 'backspace':
+        e.preventDefault();
+        handleDecrement();
+        break;
+      case 'z':
+        if (e.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+        break;
+      case 'arrowleft':
+      case 'arrowup':
+        e.preventDefault();
+        selectShortcutProject((currentIndex - 1 + shortcutProjects.length) % shortcutProjects.length);
+        break;
+      case 'arrowright':
+      case 'arrowdown':
+        e.preventDefault();
+        selectShortcutProject((currentIndex + 1) % shortcutProjects.length);
+        break;
+      case 's':
+        setShowStats(true);
+        break;
+      case 'm':
+        setShowProjectMenu(true);
+        break;
+      case 'l':
+        setShowManualLog(true);
+        break;
+      case '?':
+        setShowShortcuts(true);
+        break;
+      default:
+        if (/^[1-9]$/.test(key)) selectShortcutProject(parseInt(key, 10) - 1);
+    }
+  };
 
-    return sortedDates.map(date => {
-      const items = projects
-        .filter(p => (p.logs[date] || 0) > 0)
-        .map(p => ({ 
-          projectId: p.id,
-          name: p.name, 
-          count: p.logs[date] 
-        }));
-      
-      const totalForDay = items.reduce((sum, item) => sum + item.count, 0);
-      if (totalForDay === 0 && items.length === 0) return null;
+  // The listener is bound once and always calls the latest handler
+  const keyDownRef = useRef(handleKeyDown);
+  keyDownRef.current = handleKeyDown;
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyDownRef.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
 
-      return {
-        date,
-        total: totalForDay,
-        items
-      };
-    }).filter(Boolean) as { date: string, total: number, items: {projectId: string, name: string, count: number}[] }[];
-  }, [projects, statsStartDate]);
 
+  if (!isLoaded) {
+    return <div className="h-screen w-full bg-slate-950" />;
+  }
 
   return (
     <div className="h-screen w-full flex flex-col bg-slate-950 relative selection:bg-indigo-500 selection:text-white overflow-hidden text-slate-100 font-sans">
@@ -666,7 +1644,7 @@ const App: React.FC = () => {
           className="group flex flex-col items-start outline-none"
         >
           <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1.5 ml-1">
-            Current Project
+            {t('header.currentProject')}
           </span>
           <div className="flex items-center gap-3 bg-slate-800/40 backdrop-blur-md border border-slate-700/50 rounded-full pl-4 pr-3 py-2 shadow-lg shadow-black/20 group-hover:bg-slate-800/60 group-hover:border-indigo-500/30 transition-all active:scale-95">
             <h1 className="text-lg font-bold text-slate-100 max-w-[160px] truncate leading-none">
@@ -679,6 +1657,41 @@ const App: React.FC = () => {
         </button>
         
         <div className="flex gap-2">
+          <div className="flex rounded-full bg-slate-800/80 border border-slate-700 backdrop-blur-sm shadow-lg shadow-black/20 overflow-hidden">
+            <button
+              onClick={handleUndo}
+              disabled={undoStack.length === 0}
+              className="p-3 text-slate-300 hover:text-indigo-300 hover:bg-indigo-900/40 transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-300"
+              title={t('common.undo')}
+            >
+              <Undo2 size={20} />
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={redoStack.length === 0}
+              className="p-3 text-slate-300 hover:text-indigo-300 hover:bg-indigo-900/40 transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-300"
+              title={t('common.redo')}
+            >
+              <Redo2 size={20} />
+            </button>
+          </div>
+          <button
+            onClick={() => setShowShortcuts(true)}
+            className="hidden md:block p-3 rounded-full bg-slate-800/80 hover:bg-indigo-900/40 text-slate-300 hover:text-indigo-300 transition-all border border-slate-700 hover:border-indigo-500/30 backdrop-blur-sm shadow-lg shadow-black/20"
+            title={t('header.shortcuts')}
+          >
+            <Keyboard size={20} />
+          </button>
+          <button
+            onClick={handleLayoutModeToggle}
+            className={`p-3 rounded-full transition-all border backdrop-blur-sm shadow-lg shadow-black/20
+              ${layoutMode === 'dashboard'
+                ? 'bg-indigo-600 text-white border-indigo-500'
+                : 'bg-slate-800/80 hover:bg-indigo-900/40 text-slate-300 hover:text-indigo-300 border-slate-700 hover:border-indigo-500/30'}`}
+            title={t(layoutMode === 'dashboard' ? 'header.singleView' : 'header.dashboard')}
+          >
+            <LayoutGrid size={20} />
+          </button>
           <button 
             onClick={() => setShowStats(true)}
             className="p-3 rounded-full bg-slate-800/80 hover:bg-indigo-900/40 text-slate-300 hover:text-indigo-300 transition-all border border-slate-700 hover:border-indigo-500/30 backdrop-blur-sm shadow-lg shadow-black/20"
@@ -687,47 +1700,342 @@ const App: React.FC = () => {
           </button>
           <button 
             onClick={() => setShowResetConfirm(true)}
-            className="p-3 rounded-full bg-slate-800/80 hover:bg-rose-900/20 text-slate-300 hover:text-rose-400 transition-all border border-slate-700 hover:border-rose-500/30 backdrop-blur-sm shadow-lg shadow-black/20"
+            disabled={activeIsMeasure}
+            className="p-3 rounded-full bg-slate-800/80 hover:bg-rose-900/20 text-slate-300 hover:text-rose-400 transition-all border border-slate-700 hover:border-rose-500/30 backdrop-blur-sm shadow-lg shadow-black/20 disabled:opacity-30 disabled:pointer-events-none"
           >
             <RotateCcw size={20} />
           </button>
         </div>
       </header>
 
+      {/* Dashboard Grid */}
+      {layoutMode === 'dashboard' && (
+        <main className="relative z-10 flex-1 overflow-y-auto w-full max-w-5xl mx-auto px-4 pb-12">
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+            {shortcutProjects.map(p => {
+              const todayCount = p.logs[getTodayString()] || 0;
+              if (isMeasure(p)) {
+                return (
+                  <form
+                    key={p.id}
+                    onSubmit={(e) => handleRecordValue(p, e)}
+                    className={`relative flex flex-col rounded-3xl border overflow-hidden bg-slate-900/60 border-slate-800
+                      ${p.id === activeProjectId ? 'ring-2 ring-indigo-500/50' : ''}`}
+                  >
+                    <div className="flex-1 flex flex-col items-start p-4 pb-3">
+                      <span className="w-full text-sm font-bold text-slate-300 truncate flex items-center gap-1.5">
+                        <Gauge size={14} className="text-slate-500 flex-shrink-0" /> {p.name}
+                      </span>
+                      <span className="font-sans tabular-nums font-black leading-none tracking-tighter mt-3 text-4xl text-white">
+                        {hasLogOn(p, getTodayString()) ? formatMeasure(todayCount, { decimals: p.decimals }, locale) : '–'}
+                      </span>
+                      <span className="mt-2 text-xs font-bold text-slate-500">{p.unit || '\u00a0'}</span>
+                    </div>
+                    <div className="flex border-t border-slate-800">
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        step={10 ** -getDecimals(p)}
+                        placeholder={t('main.valuePlaceholder')}
+                        value={measureInputs[p.id] ?? ''}
+                        onChange={(e) => setMeasureInputs(prev => ({ ...prev, [p.id]: e.target.value }))}
+                        className="flex-1 min-w-0 bg-transparent px-3 py-2.5 text-sm font-bold text-white tabular-nums outline-none placeholder:text-slate-600 placeholder:font-normal"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!measureInputs[p.id]}
+                        className="px-4 flex items-center justify-center border-l border-slate-800 text-indigo-300 hover:bg-indigo-900/40 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                        title={t('main.record')}
+                      >
+                        <Check size={16} />
+                      </button>
+                    </div>
+                  </form>
+                );
+              }
+              const step = getStep(p);
+              const reached = !!p.goal && todayCount >= p.goal;
+              return (
+                <div
+                  key={p.id}
+                  className={`relative flex flex-col rounded-3xl border overflow-hidden transition-colors
+                    ${reached ? 'bg-emerald-500/10 border-emerald-500/40' : 'bg-slate-900/60 border-slate-800'}
+                    ${p.id === activeProjectId ? 'ring-2 ring-indigo-500/50' : ''}`}
+                >
+                  <button
+                    onClick={() => handleDashboardTap(p, 1)}
+                    className="flex-1 flex flex-col items-start p-4 pb-3 text-left outline-none focus-visible:bg-slate-800/40 active:bg-slate-800/60 transition-colors touch-manipulation select-none"
+                  >
+                    <span className="w-full text-sm font-bold text-slate-300 truncate">{p.name}</span>
+                    <span className={`font-sans tabular-nums font-black leading-none tracking-tighter mt-3 ${p.count > 9999 ? 'text-3xl' : 'text-5xl'} ${reached ? 'text-emerald-300' : 'text-white'}`}>
+                      {formatNumber(p.count, locale)}
+                    </span>
+                    <span className="mt-2 text-xs font-bold text-slate-500 tabular-nums flex items-center gap-1">
+                      {p.goal && <Target size={12} className={reached ? 'text-emerald-400' : ''} />}
+                      {t('dashboard.today', {
+                        count: p.goal
+                          ? `${formatNumber(todayCount, locale)} / ${formatNumber(p.goal, locale)}`
+                          : formatNumber(todayCount, locale)
+                      })}
+                    </span>
+                  </button>
+                  {p.goal && (
+                    <div className="h-1 bg-slate-800">
+                      <div
+                        className={`h-full transition-all duration-300 ${reached ? 'bg-emerald-400' : 'bg-indigo-400'}`}
+                        style={{ width: `${Math.min(todayCount / p.goal, 1) * 100}%` }}
+                      />
+                    </div>
+                  )}
+                  <div className="flex border-t border-slate-800">
+                    <button
+                      onClick={() => handleDashboardTap(p, -1)}
+                      disabled={todayCount === 0}
+                      className="flex-1 py-2.5 flex items-center justify-center text-slate-400 hover:text-rose-300 hover:bg-rose-900/20 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                      title={t('main.decrement')}
+                    >
+                      <Minus size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDashboardTap(p, 1)}
+                      className="flex-1 py-2.5 flex items-center justify-center gap-1 border-l border-slate-800 text-indigo-300 hover:bg-indigo-900/40 font-bold text-sm tabular-nums transition-colors"
+                    >
+                      <Plus size={16} />
+                      {step !== 1 && step}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </main>
+      )}
+
       {/* Main Display Area */}
-      <main className="relative z-10 flex-1 flex flex-col items-center justify-center w-full max-w-md mx-auto px-6 pb-12 gap-8">
-        <div className="flex flex-col items-center justify-center w-full mt-auto mb-auto">
-          <div className={`
-            font-sans tabular-nums font-bold text-white
-            select-none leading-none tracking-tighter
-            ${(activeProject?.count || 0) > 999 ? 'text-[5rem]' : 'text-[7rem]'}
-            drop-shadow-[0_0_15px_rgba(99,102,241,0.15)]
-          `}>
-            {activeProject?.count || 0}
+      {layoutMode === 'single' && (
+        <main className="relative z-10 flex-1 flex flex-col items-center justify-center w-full max-w-md mx-auto px-6 pb-12 gap-8">
+          <div className="flex flex-col items-center justify-center w-full mt-auto mb-auto">
+            <div className={`
+              font-sans tabular-nums font-bold text-white
+              select-none leading-none tracking-tighter
+              ${(activeProject?.count || 0) > 999 ? 'text-[5rem]' : 'text-[7rem]'}
+              drop-shadow-[0_0_15px_rgba(99,102,241,0.15)]
+            `}>
+              {activeIsMeasure
+                ? (activeHasTodayValue ? formatMeasure(activeTodayCount, { decimals: activeProject!.decimals }, locale) : '–')
+                : formatNumber(activeProject?.count || 0, locale)}
+            </div>
+
+            {activeIsMeasure && (
+              <div className="flex flex-col items-center gap-1 mt-3">
+                {activeProject!.unit && (
+                  <span className="text-xl font-bold text-slate-400">{activeProject!.unit}</span>
+                )}
+                {!activeHasTodayValue && activeLastValueDate && (
+                  <span className="text-xs font-bold text-slate-500 tabular-nums">
+                    {t('main.lastValue', {
+                      value: formatMeasure(activeProject!.logs[activeLastValueDate], activeProject!, locale),
+                      date: formatDateDisplay(activeLastValueDate, locale, t)
+                    })}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {activeStreak && activeStreak.longest > 0 && (
+              <div className="flex items-center gap-2 mt-4 text-xs font-bold text-slate-500 tabular-nums">
+                <Flame size={14} className={activeStreak.current > 0 ? 'text-orange-400' : 'text-slate-600'} />
+                <span className={activeStreak.current > 0 ? 'text-orange-300' : ''}>{t('main.streak', { days: activeStreak.current })}</span>
+                <span>{t('main.longestStreak', { days: activeStreak.longest })}</span>
+                {activeStreak.current > 0 && !activeStreak.isTodayLogged && (
+                  <span className="text-slate-600">{t('main.notLoggedToday')}</span>
+                )}
+              </div>
+            )}
+
+            {!activeIsMeasure && (
+              <div className="flex items-center gap-3 mt-6">
+                <button
+                  onClick={handleDecrement}
+                  disabled={activeTodayCount === 0}
+                  className="p-3 rounded-full bg-slate-800/80 text-slate-300 hover:text-rose-300 hover:bg-rose-900/20 border border-slate-700 hover:border-rose-500/30 transition-all active:scale-95 disabled:opacity-30 disabled:pointer-events-none"
+                  title={t('main.decrement')}
+                >
+                  <Minus size={18} />
+                </button>
+                <button
+                  onClick={() => setShowStepSettings(true)}
+                  className="px-4 py-2 rounded-full bg-slate-800/80 text-slate-300 hover:text-indigo-300 border border-slate-700 hover:border-indigo-500/30 text-sm font-bold tabular-nums transition-all active:scale-95"
+                  title={t('main.stepTitle')}
+                >
+                  {t('main.step', { step: getStep(activeProject) })}
+                </button>
+                <button
+                  onClick={() => {
+                    setGoalValue(activeGoal ? String(activeGoal) : '');
+                    setShowGoalSettings(true);
+                  }}
+                  className={`px-4 py-2 rounded-full bg-slate-800/80 border text-sm font-bold tabular-nums transition-all active:scale-95 flex items-center gap-1.5
+                    ${isGoalReached
+                      ? 'text-emerald-300 border-emerald-500/40'
+                      : 'text-slate-300 border-slate-700 hover:text-indigo-300 hover:border-indigo-500/30'}`}
+                  title={t('main.goalTitle')}
+                >
+                  <Target size={14} />
+                  {activeGoal ? `${formatNumber(activeTodayCount, locale)} / ${formatNumber(activeGoal, locale)}` : t('main.goal')}
+                </button>
+                <button
+                  onClick={() => setShowTodayTaps(true)}
+                  className="p-3 rounded-full bg-slate-800/80 text-slate-300 hover:text-indigo-300 border border-slate-700 hover:border-indigo-500/30 transition-all active:scale-95"
+                  title={t('main.todayTaps')}
+                >
+                  <History size={18} />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {activeIsMeasure ? (
+            <form onSubmit={(e) => handleRecordValue(activeProject!, e)} className="w-full flex-none flex gap-3 pb-8 mt-12">
+              <input
+                ref={measureInputRef}
+                type="number"
+                inputMode="decimal"
+                step={10 ** -getDecimals(activeProject!)}
+                placeholder={t('main.valuePlaceholder')}
+                value={measureInputs[activeProject!.id] ?? ''}
+                onChange={(e) => setMeasureInputs(prev => ({ ...prev, [activeProject!.id]: e.target.value }))}
+                className="flex-1 min-w-0 bg-slate-900/80 border border-slate-700 rounded-2xl px-5 py-4 text-2xl font-bold text-white tabular-nums outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-colors placeholder:text-slate-600 placeholder:text-base"
+              />
+              <button
+                type="submit"
+                disabled={!measureInputs[activeProject!.id]}
+                className="px-6 rounded-2xl bg-gradient-to-br from-indigo-500 to-indigo-600 text-white font-bold flex items-center gap-2 shadow-[0_20px_50px_-12px_rgba(79,70,229,0.5)] hover:brightness-110 active:scale-95 transition-all disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Check size={20} /> {t('main.record')}
+              </button>
+              {activeHasTodayValue && (
+                <button
+                  type="button"
+                  onClick={() => handleClearValue(activeProject!)}
+                  className="px-4 rounded-2xl border border-slate-700 text-slate-400 flex items-center justify-center hover:text-rose-300 hover:border-rose-800 active:scale-95 transition-all"
+                  title={t('main.clearValue')}
+                >
+                  <X size={20} />
+                </button>
+              )}
+            </form>
+          ) : (
+            <div className="w-full flex-none flex flex-col items-center justify-center pb-8 mt-12">
+              <div className="relative">
+                {activeGoal && (
+                  <svg viewBox="0 0 100 100" className="absolute -inset-3 w-[calc(100%+1.5rem)] h-[calc(100%+1.5rem)] -rotate-90 pointer-events-none">
+                    <circle cx="50" cy="50" r="48" fill="none" strokeWidth="2" className="stroke-slate-800" />
+                    <circle
+                      cx="50" cy="50" r="48" fill="none" strokeWidth="2.5" strokeLinecap="round"
+                      pathLength={100}
+                      strokeDasharray={`${goalProgress * 100} 100`}
+                      className={`transition-all duration-300 ${isGoalReached ? 'stroke-emerald-400' : 'stroke-indigo-400'}`}
+                    />
+                  </svg>
+                )}
+                <button
+                  onClick={handleIncrement}
+                  className={`
+                    relative group w-64 h-64 sm:w-72 sm:h-72 rounded-full 
+                    flex items-center justify-center
+                    transition-transform duration-100 ease-out touch-manipulation
+                    outline-none focus:ring-4 focus:ring-indigo-500/30
+                    ${isGoalReached
+                      ? 'bg-gradient-to-br from-emerald-500 to-emerald-600 shadow-[0_20px_50px_-12px_rgba(16,185,129,0.5),inset_0_2px_4px_rgba(255,255,255,0.2)]'
+                      : 'bg-gradient-to-br from-indigo-500 to-indigo-600 shadow-[0_20px_50px_-12px_rgba(79,70,229,0.5),inset_0_2px_4px_rgba(255,255,255,0.2)]'
+                    }
+                    ${isPressed 
+                      ? 'scale-[0.98] brightness-95' 
+                      : 'scale-100 hover:brightness-110'
+                    }
+                  `}
+                >
+                  <div className="absolute inset-0 rounded-full bg-gradient-to-b from-white/10 to-transparent pointer-events-none"></div>
+                  <Plus size={88} strokeWidth={3} className="text-white drop-shadow-md" />
+                  {getStep(activeProject) !== 1 && (
+                    <span className="absolute bottom-12 text-white/80 font-black text-2xl tabular-nums">
+                      +{getStep(activeProject)}
+                    </span>
+                  )}
+                </button>
+              </div>
+              {isGoalReached && (
+                <div className="mt-6 flex items-center gap-2 text-emerald-300 text-sm font-bold animate-in fade-in zoom-in-95 duration-300">
+                  <Trophy size={16} /> {t('main.goalReached')}
+                </div>
+              )}
+            </div>
+          )}
+        </main>
+      )}
+
+      {/* --- Data Notice --- */}
+      {dataNotice && (
+        <div className={`absolute top-24 left-4 right-4 z-[90] mx-auto max-w-md flex items-start gap-3 rounded-2xl border p-4 shadow-xl shadow-black/40 backdrop-blur-md animate-in fade-in slide-in-from-top-2 duration-200
+          ${dataNotice.type === 'error' ? 'bg-rose-950/90 border-rose-800 text-rose-200' : 'bg-slate-800/95 border-slate-700 text-slate-200'}`}
+        >
+          {dataNotice.type === 'error' ? <AlertTriangle size={18} className="flex-none mt-0.5" /> : <Check size={18} className="flex-none mt-0.5 text-indigo-400" />}
+          <p className="flex-1 text-sm leading-relaxed">{dataNotice.message}</p>
+          <button onClick={() => setDataNotice(null)} className="flex-none p-1 text-slate-400 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {/* --- Reload Required --- */}
+      {/* Covers the whole app: taps made from here on could no longer be saved */}
+      {storageClosed && (
+        <div className="absolute inset-0 z-[100] bg-slate-950/95 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-200">
+          <div className="w-full max-w-sm flex flex-col items-center gap-5 rounded-3xl border border-slate-800 bg-slate-900 p-6 text-center shadow-2xl">
+            <div className="p-3 bg-indigo-500/10 rounded-2xl text-indigo-400">
+              <RefreshCw size={24} />
+            </div>
+            <p className="text-sm leading-relaxed text-slate-200">{t('notice.reloadRequired')}</p>
+            <button
+              onClick={() => window.location.reload()}
+              className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-500 active:scale-95 transition-all"
+            >
+              {t('notice.reload')}
+            </button>
           </div>
         </div>
+      )}
 
-        <div className="w-full flex-none flex items-center justify-center pb-8 mt-12">
+      {/* --- Update Available Notice --- */}
+      {needRefresh && (
+        <div className="absolute bottom-24 left-4 right-4 z-[90] mx-auto max-w-md flex items-center gap-3 rounded-2xl border p-4 bg-slate-800/95 border-slate-700 text-slate-200 shadow-xl shadow-black/40 backdrop-blur-md animate-in fade-in slide-in-from-bottom-2 duration-200">
+          <RefreshCw size={18} className="flex-none text-indigo-400" />
+          <p className="flex-1 text-sm leading-relaxed">{t('notice.updateAvailable')}</p>
           <button
-            onClick={handleIncrement}
-            className={`
-              relative group w-64 h-64 sm:w-72 sm:h-72 rounded-full 
-              flex items-center justify-center
-              transition-transform duration-100 ease-out touch-manipulation
-              outline-none focus:ring-4 focus:ring-indigo-500/30
-              bg-gradient-to-br from-indigo-500 to-indigo-600
-              shadow-[0_20px_50px_-12px_rgba(79,70,229,0.5),inset_0_2px_4px_rgba(255,255,255,0.2)]
-              ${isPressed 
-                ? 'scale-[0.98] brightness-95' 
-                : 'scale-100 hover:brightness-110'
-              }
-            `}
+            onClick={() => updateServiceWorker(true)}
+            className="flex-none px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-500 transition-colors"
           >
-            <div className="absolute inset-0 rounded-full bg-gradient-to-b from-white/10 to-transparent pointer-events-none"></div>
-            <Plus size={88} strokeWidth={3} className="text-white drop-shadow-md" />
+            {t('notice.update')}
+          </button>
+          <button onClick={() => setNeedRefresh(false)} className="flex-none p-1 text-slate-400 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {/* --- Undo Toast --- */}
+      {undoToast && (
+        <div key={undoToast.id} className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[90] flex items-center gap-4 bg-slate-800/95 border border-slate-700 backdrop-blur-md rounded-full pl-5 pr-2 py-2 shadow-xl shadow-black/40 animate-in fade-in slide-in-from-bottom-2 duration-200">
+          <span className="text-sm text-slate-200 max-w-[200px] truncate">{undoToast.label}</span>
+          <button
+            onClick={handleUndo}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-500 transition-colors"
+          >
+            <Undo2 size={14} /> {t('common.undo')}
           </button>
         </div>
-      </main>
+      )}
 
       {/* --- Project Menu Modal --- */}
       {showProjectMenu && (
@@ -737,7 +2045,7 @@ const App: React.FC = () => {
               <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400">
                 <Menu size={20} />
               </div>
-              今日項目 (Today)
+              {t('menu.title')}
             </h2>
             <button 
               onClick={() => setShowProjectMenu(false)}
@@ -748,22 +2056,39 @@ const App: React.FC = () => {
           </div>
 
           <div className="flex-1 overflow-y-auto p-5 space-y-3">
+            {menuTags.length > 0 && (
+              <div className="flex flex-wrap gap-2 pb-1">
+                {[null, ...menuTags].map(tag => (
+                  <button
+                    key={tag ?? ''}
+                    onClick={() => setMenuTagFilter(tag)}
+                    className={`px-3 py-1.5 rounded-lg border text-sm font-bold flex items-center gap-1.5 transition-all active:scale-95
+                      ${activeMenuTag === tag
+                        ? 'bg-indigo-600 text-white border-indigo-500'
+                        : 'bg-slate-900/60 text-slate-400 border-slate-800 hover:border-indigo-500/50 hover:text-indigo-300'}`}
+                  >
+                    {tag === null ? t('menu.allTags') : <><Tag size={12} /> {tag}</>}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {visibleProjects.length === 0 && (
               <div className="text-center py-10 animate-in fade-in zoom-in-95 duration-300">
                 <div className="inline-flex justify-center items-center w-12 h-12 rounded-full bg-slate-900 mb-3 text-slate-600">
                   <Filter size={20} />
                 </div>
-                <p className="text-slate-500 text-sm">今日尚無項目</p>
-                <p className="text-slate-600 text-xs mt-1">請建立新項目</p>
+                <p className="text-slate-500 text-sm">{t('menu.empty')}</p>
+                <p className="text-slate-600 text-xs mt-1">{t('menu.emptyHint')}</p>
               </div>
             )}
 
-            {visibleProjects.map(p => (
+            {menuProjects.map(p => (
               <div 
                 key={p.id}
                 onClick={() => {
                   if (editingProjectId !== p.id) {
-                    setActiveProjectId(p.id);
+                    store.dispatch({ type: 'select', projectId: p.id });
                     setShowProjectMenu(false);
                   }
                 }}
@@ -778,7 +2103,7 @@ const App: React.FC = () => {
               >
                 <div className="flex-1 mr-4">
                   {editingProjectId === p.id ? (
-                    <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex flex-col gap-2" onClick={(e) => e.stopPropagation()}>
                       <input 
                         type="text" 
                         value={editingNameValue}
@@ -786,14 +2111,57 @@ const App: React.FC = () => {
                         className="bg-slate-950 text-white rounded-lg px-3 py-2 w-full border border-indigo-500/50 focus:border-indigo-400 outline-none"
                         autoFocus
                       />
+                      <div className="relative">
+                        <Tag size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+                        <input
+                          type="text"
+                          value={editingTagsValue}
+                          onChange={(e) => setEditingTagsValue(e.target.value)}
+                          placeholder={t('menu.tagsPlaceholder')}
+                          className="bg-slate-950 text-slate-300 text-sm rounded-lg pl-8 pr-3 py-2 w-full border border-slate-700 focus:border-indigo-400 outline-none placeholder:text-slate-600"
+                        />
+                      </div>
+                      {isMeasure(p) && (
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={editingUnitValue}
+                            onChange={(e) => setEditingUnitValue(e.target.value)}
+                            placeholder={t('menu.unitPlaceholder')}
+                            className="flex-1 min-w-0 bg-slate-950 text-slate-300 text-sm rounded-lg px-3 py-2 border border-slate-700 focus:border-indigo-400 outline-none placeholder:text-slate-600"
+                          />
+                          <select
+                            value={editingDecimals}
+                            onChange={(e) => setEditingDecimals(parseInt(e.target.value, 10))}
+                            title={t('menu.decimals')}
+                            className="bg-slate-950 text-slate-300 text-sm rounded-lg px-2 py-2 border border-slate-700 focus:border-indigo-400 outline-none"
+                          >
+                            {Array.from({ length: MAX_DECIMALS + 1 }, (_, n) => (
+                              <option key={n} value={n} className="bg-slate-900 text-white">{t('menu.decimalsOption', { count: n })}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <>
                       <div className={`font-bold text-lg mb-1 ${activeProjectId === p.id ? 'text-indigo-300' : 'text-slate-200 group-hover:text-white'}`}>
                         {p.name}
                       </div>
-                      <div className="text-xs text-slate-500 font-sans tabular-nums">
-                        Count: <span className="text-slate-300">{p.count}</span>
+                      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-500 font-sans tabular-nums">
+                        {isMeasure(p) ? (
+                          <span className="flex items-center gap-1">
+                            <Gauge size={12} />
+                            {richText(t('menu.value'), { value: <span className="text-slate-300">{hasLogOn(p, getTodayString()) ? formatMeasure(p.logs[getTodayString()], p, locale) : '–'}</span> })}
+                          </span>
+                        ) : (
+                          <span>{richText(t('menu.count'), { count: <span className="text-slate-300">{formatNumber(p.count, locale)}</span> })}</span>
+                        )}
+                        {p.tags?.map(tag => (
+                          <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-800 text-slate-400 text-[10px] font-bold">
+                            <Tag size={10} /> {tag}
+                          </span>
+                        ))}
                       </div>
                     </>
                   )}
@@ -824,33 +2192,134 @@ const App: React.FC = () => {
               </div>
             ))}
              
-             <button onClick={() => setShowFactoryResetConfirm(true)} className="w-full py-4 text-xs text-rose-800 hover:text-rose-500 flex items-center justify-center gap-2 transition-colors mt-8">
-                <Trash size={12} /> ⚠️ 清除所有資料 (Clear All Data)
+             <button
+               onClick={() => setShowArchive(true)}
+               className="w-full mt-8 py-3 rounded-xl bg-slate-900/60 border border-slate-800 text-slate-400 text-sm font-bold hover:text-indigo-300 hover:border-indigo-500/30 flex items-center justify-center gap-2 transition-colors"
+             >
+               <Archive size={16} /> {t('menu.archive')}
+               {archivedProjects.length > 0 && (
+                 <span className="bg-slate-800 text-slate-300 text-xs px-2 py-0.5 rounded-full tabular-nums">{archivedProjects.length}</span>
+               )}
+             </button>
+
+             <button
+               onClick={() => setShowDayStartSettings(true)}
+               className="w-full py-3 rounded-xl bg-slate-900/60 border border-slate-800 text-slate-400 text-sm font-bold hover:text-indigo-300 hover:border-indigo-500/30 flex items-center justify-center gap-2 transition-colors"
+             >
+               <Clock size={16} /> {t('menu.dayStart')}
+               <span className="bg-slate-800 text-slate-300 text-xs px-2 py-0.5 rounded-full tabular-nums">{formatHour(dayStartHour)}</span>
+             </button>
+
+             <button
+               onClick={() => setShowFeedbackSettings(true)}
+               className="w-full py-3 rounded-xl bg-slate-900/60 border border-slate-800 text-slate-400 text-sm font-bold hover:text-indigo-300 hover:border-indigo-500/30 flex items-center justify-center gap-2 transition-colors"
+             >
+               <Vibrate size={16} /> {t('menu.feedback')}
+             </button>
+
+             <div className="grid grid-cols-2 gap-3" title={t('menu.language')}>
+               {LOCALES.map(({ code, label }) => (
+                 <button
+                   key={code}
+                   onClick={() => handleLocaleChange(code)}
+                   className={`py-3 rounded-xl border text-sm font-bold flex items-center justify-center gap-2 transition-colors
+                     ${locale === code
+                       ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-300'
+                       : 'bg-slate-900/60 border-slate-800 text-slate-400 hover:text-indigo-300 hover:border-indigo-500/30'}`}
+                 >
+                   <Languages size={16} /> {label}
+                 </button>
+               ))}
+             </div>
+
+             <div className="grid grid-cols-2 gap-3">
+               <button
+                 onClick={handleExportBackup}
+                 className="py-3 rounded-xl bg-slate-900/60 border border-slate-800 text-slate-400 text-sm font-bold hover:text-indigo-300 hover:border-indigo-500/30 flex items-center justify-center gap-2 transition-colors"
+               >
+                 <Download size={16} /> {t('menu.exportBackup')}
+               </button>
+               <button
+                 onClick={() => importInputRef.current?.click()}
+                 className="py-3 rounded-xl bg-slate-900/60 border border-slate-800 text-slate-400 text-sm font-bold hover:text-indigo-300 hover:border-indigo-500/30 flex items-center justify-center gap-2 transition-colors"
+               >
+                 <Upload size={16} /> {t('menu.importBackup')}
+               </button>
+               <input
+                 ref={importInputRef}
+                 type="file"
+                 accept="application/json,.json"
+                 onChange={handleImportFileChange}
+                 className="hidden"
+               />
+             </div>
+
+             <button onClick={() => setShowFactoryResetConfirm(true)} className="w-full py-4 text-xs text-rose-800 hover:text-rose-500 flex items-center justify-center gap-2 transition-colors">
+                <Trash size={12} /> {t('menu.clearAll')}
              </button>
           </div>
 
           <div className="p-5 border-t border-slate-800 bg-slate-900 pb-8 flex flex-col gap-5 shadow-[0_-10px_40px_rgba(0,0,0,0.3)] z-10">
-            <form onSubmit={handleCreateProject} className="flex gap-3">
-              <input
-                type="text"
-                placeholder="輸入新項目名稱..."
-                value={newProjectName}
-                onChange={(e) => setNewProjectName(e.target.value)}
-                className="flex-1 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:bg-slate-800 transition-colors"
-              />
-              <button 
-                type="submit"
-                disabled={!newProjectName.trim()}
-                className="bg-indigo-600 text-white p-3 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed hover:bg-indigo-500 font-bold shadow-lg shadow-indigo-900/30"
-              >
-                <PlusCircle size={24} />
-              </button>
+            <form onSubmit={handleCreateProject} className="flex flex-col gap-3">
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  placeholder={t('menu.newProjectPlaceholder')}
+                  value={newProjectName}
+                  onChange={(e) => setNewProjectName(e.target.value)}
+                  className="flex-1 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:bg-slate-800 transition-colors"
+                />
+                <button 
+                  type="submit"
+                  disabled={!newProjectName.trim()}
+                  className="bg-indigo-600 text-white p-3 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed hover:bg-indigo-500 font-bold shadow-lg shadow-indigo-900/30"
+                >
+                  <PlusCircle size={24} />
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <div className="flex bg-slate-900/30 border border-slate-800 p-1 rounded-xl">
+                  {(['counter', 'measure'] as ProjectType[]).map(type => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setNewProjectType(type)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-all
+                        ${newProjectType === type ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      {type === 'counter' ? <Plus size={12} /> : <Gauge size={12} />}
+                      {t(type === 'counter' ? 'menu.typeCounter' : 'menu.typeMeasure')}
+                    </button>
+                  ))}
+                </div>
+                {newProjectType === 'measure' && (
+                  <>
+                    <input
+                      type="text"
+                      value={newProjectUnit}
+                      onChange={(e) => setNewProjectUnit(e.target.value)}
+                      placeholder={t('menu.unitPlaceholder')}
+                      className="flex-1 min-w-0 bg-slate-800/50 border border-slate-700 rounded-xl px-3 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500 transition-colors"
+                    />
+                    <select
+                      value={newProjectDecimals}
+                      onChange={(e) => setNewProjectDecimals(parseInt(e.target.value, 10))}
+                      title={t('menu.decimals')}
+                      className="bg-slate-800/50 border border-slate-700 rounded-xl px-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-colors"
+                    >
+                      {Array.from({ length: MAX_DECIMALS + 1 }, (_, n) => (
+                        <option key={n} value={n} className="bg-slate-900 text-white">{t('menu.decimalsOption', { count: n })}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
             </form>
 
             {recentNames.length > 0 && (
               <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
                 <div className="flex items-center gap-2 mb-3 text-[10px] text-slate-500 font-bold uppercase tracking-widest">
-                  <Clock size={12} /> 最近使用 (Recently Used)
+                  <Clock size={12} /> {t('menu.recentlyUsed')}
                 </div>
                 <div className="flex flex-wrap gap-2">
                   {recentNames.map((name, index) => (
@@ -869,6 +2338,100 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* --- Archive Screen --- */}
+      {showArchive && (
+        <div className="absolute inset-0 z-[55] bg-slate-950 flex flex-col animate-in slide-in-from-bottom duration-300">
+          <div className="p-5 flex items-center justify-between border-b border-slate-800 bg-slate-900/50">
+            <h2 className="text-xl font-bold text-white flex items-center gap-3">
+              <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400">
+                <Archive size={20} />
+              </div>
+              {t('archive.title')}
+            </h2>
+            <button 
+              onClick={() => {
+                setShowArchive(false);
+                setEditingProjectId(null);
+              }}
+              className="p-2 bg-slate-800 rounded-full text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-5 space-y-3 pb-12">
+            {archivedProjects.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 text-slate-500">
+                <div className="p-6 bg-slate-900 rounded-full mb-4">
+                  <Archive size={32} className="opacity-20" />
+                </div>
+                <p className="font-medium">{t('archive.empty')}</p>
+              </div>
+            ) : (
+              archivedProjects.map(({ project: p, total, lastLoggedDate }) => (
+                <div key={p.id} className={`w-full p-4 rounded-xl border flex items-center justify-between
+                  ${editingProjectId === p.id ? 'border-indigo-400 ring-1 ring-indigo-400 bg-slate-800' : 'bg-slate-900/40 border-slate-800'}`}
+                >
+                  <div className="flex-1 mr-4 min-w-0">
+                    {editingProjectId === p.id ? (
+                      <input 
+                        type="text" 
+                        value={editingNameValue}
+                        onChange={(e) => setEditingNameValue(e.target.value)}
+                        className="bg-slate-950 text-white rounded-lg px-3 py-2 w-full border border-indigo-500/50 focus:border-indigo-400 outline-none"
+                        autoFocus
+                      />
+                    ) : (
+                      <>
+                        <div className="font-bold text-lg mb-1 text-slate-200 truncate">{p.name}</div>
+                        <div className="flex flex-wrap gap-x-4 text-xs text-slate-500 tabular-nums">
+                          {total === null ? (
+                            <span>{richText(t('archive.latestValue'), { value: <span className="text-slate-300 font-bold">{lastLoggedDate ? formatMeasure(p.logs[lastLoggedDate], p, locale) : '—'}</span> })}</span>
+                          ) : (
+                            <span>{richText(t('archive.total'), { total: <span className="text-slate-300 font-bold">{formatNumber(total, locale)}</span> })}</span>
+                          )}
+                          <span>{richText(t('archive.lastLogged'), { date: <span className="text-slate-300">{lastLoggedDate ? formatShortDate(lastLoggedDate, locale) : '—'}</span> })}</span>
+                          {p.tags?.map(tag => (
+                            <span key={tag} className="flex items-center gap-1 text-slate-400">
+                              <Tag size={10} /> {tag}
+                            </span>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    {editingProjectId === p.id ? (
+                      <>
+                        <button onClick={saveEditingProject} className="p-2 bg-indigo-600 rounded-lg text-white hover:bg-indigo-500 shadow-lg shadow-indigo-900/20">
+                          <Save size={18} />
+                        </button>
+                        <button onClick={cancelEditingProject} className="p-2 bg-slate-700 rounded-lg text-slate-300 hover:bg-slate-600">
+                          <X size={18} />
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button onClick={() => handleRestoreProject(p.id)} className="p-2 hover:bg-indigo-900/40 rounded-lg text-slate-500 hover:text-indigo-300 transition-colors" title={t('archive.restore')}>
+                          <ArchiveRestore size={18} />
+                        </button>
+                        <button onClick={(e) => startEditingProject(p, e)} className="p-2 hover:bg-slate-700/80 rounded-lg text-slate-500 hover:text-indigo-300 transition-colors" title={t('archive.rename')}>
+                          <Pencil size={18} />
+                        </button>
+                        <button onClick={() => requestPurgeProject(p)} className="p-2 hover:bg-rose-900/30 rounded-lg text-slate-500 hover:text-rose-400 transition-colors" title={t('archive.purge')}>
+                          <Trash2 size={18} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
       {/* --- Stats Modal --- */}
       {showStats && (
         <div className="absolute inset-0 z-50 bg-slate-950 flex flex-col animate-in slide-in-from-bottom duration-300">
@@ -877,14 +2440,21 @@ const App: React.FC = () => {
                <button 
                  onClick={() => setShowDateSettings(true)}
                  className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400 hover:bg-indigo-500/30 transition-colors active:scale-95"
-                 title="設定統計起始日"
+                 title={t('stats.setRange')}
                >
                  <CalendarRange size={20} />
                </button>
-               <h2 className="text-xl font-bold text-white">統計紀錄</h2>
+               <h2 className="text-xl font-bold text-white">{t('stats.title')}</h2>
              </div>
             
             <div className="flex items-center gap-3">
+                <button
+                    onClick={() => setShowCsvExport(true)}
+                    className="p-2 bg-slate-800 rounded-lg text-slate-400 hover:text-indigo-300 border border-slate-700 hover:border-indigo-500/30 transition-colors"
+                    title={t('stats.exportCsv')}
+                >
+                    <FileSpreadsheet size={18} />
+                </button>
                 <button
                     onClick={() => {
                         setShowStats(false);
@@ -893,7 +2463,7 @@ const App: React.FC = () => {
                     className="flex items-center gap-2 bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600 hover:text-white px-3 py-2 rounded-lg font-bold transition-all border border-indigo-500/20 text-xs sm:text-sm"
                 >
                     <CalendarPlus size={16} />
-                    補填紀錄
+                    {t('stats.manualLog')}
                 </button>
                 <button 
                   onClick={() => setShowStats(false)}
@@ -910,42 +2480,138 @@ const App: React.FC = () => {
               className={`flex-1 py-2.5 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all
                 ${statsView === 'overview' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/20' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}
             >
-              <PieChart size={16} /> 統計總覽
+              <PieChart size={16} /> {t('stats.overview')}
             </button>
             <button 
               onClick={() => setStatsView('history')}
               className={`flex-1 py-2.5 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all
                 ${statsView === 'history' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/20' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}
             >
-              <List size={16} /> 詳細紀錄
+              <List size={16} /> {t('stats.history')}
+            </button>
+            <button 
+              onClick={() => setStatsView('chart')}
+              className={`flex-1 py-2.5 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all
+                ${statsView === 'chart' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/20' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}
+            >
+              <ChartLine size={16} /> {t('stats.chart')}
+            </button>
+            <button 
+              onClick={() => setStatsView('calendar')}
+              className={`flex-1 py-2.5 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all
+                ${statsView === 'calendar' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/20' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}
+            >
+              <CalendarDays size={16} /> {t('stats.calendar')}
             </button>
           </div>
 
-          <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-12">
-            
-            {/* VIEW: AGGREGATED OVERVIEW */}
+          {(statsView === 'overview' || statsView === 'history') && (
+            <div className="flex flex-wrap items-center gap-2 mx-4 mt-3">
+              <div className="flex flex-1 bg-slate-900/30 border border-slate-800 p-1 rounded-xl">
+                {GRANULARITIES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setStatsGranularity(value)}
+                    className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all
+                      ${statsGranularity === value ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {t(label)}
+                  </button>
+                ))}
+              </div>
+              {statsGranularity === 'week' && (
+                <div className="relative">
+                  <select
+                    value={weekStartsOn}
+                    onChange={(e) => handleWeekStartsOnChange(parseInt(e.target.value, 10))}
+                    title={t('stats.weekStartsOn')}
+                    className="bg-slate-950 border border-slate-800 rounded-xl pl-3 pr-8 py-2 text-xs font-bold text-slate-300 outline-none focus:border-indigo-500 transition-colors appearance-none"
+                  >
+                    {weekdayNames.map((name, day) => (
+                      <option key={day} value={day} className="bg-slate-900 text-white">{t('stats.weekStartsOn')} {name}</option>
+                    ))}
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-500">
+                    <ChevronDown size={14} />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-12">
+            
+            {/* VIEW: AGGREGATED OVERVIEW */}
             {statsView === 'overview' && (
                <div className="space-y-4">
-                 {aggregatedStats.length === 0 ? (
+                 {statsTags.length > 0 && (
+                   <div className="flex bg-slate-900/30 border border-slate-800 p-1 rounded-xl">
+                     {(['project', 'tag'] as const).map(groupBy => (
+                       <button
+                         key={groupBy}
+                         onClick={() => setStatsGroupBy(groupBy)}
+                         className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1.5 transition-all
+                           ${statsGroupBy === groupBy ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                       >
+                         {groupBy === 'tag' && <Tag size={12} />}
+                         {t(groupBy === 'tag' ? 'stats.byTag' : 'stats.byProject')}
+                       </button>
+                     ))}
+                   </div>
+                 )}
+
+                 {overviewStats.length === 0 && measureStats.length === 0 ? (
                     <div className="flex flex-col items-center justify-center h-64 text-slate-500">
                       <div className="p-6 bg-slate-900 rounded-full mb-4">
                         <PieChart size={32} className="opacity-20" />
                       </div>
-                      <p className="font-medium">尚無統計數據</p>
-                      <p className="text-xs mt-1">請確認日期範圍設定</p>
+                      <p className="font-medium">{t('stats.empty')}</p>
+                      <p className="text-xs mt-1">{t('stats.emptyHint')}</p>
                     </div>
+                 ) : statsGroupBy === 'tag' && statsTags.length > 0 ? (
+                   tagStats.map((item, index) => (
+                     <div key={item.tag ?? ''} className="bg-slate-900/60 border border-slate-800 p-5 rounded-2xl flex items-center justify-between animate-in fade-in slide-in-from-bottom-2 duration-300" style={{animationDelay: `${index * 50}ms`}}>
+                       <div className="flex items-center gap-4 min-w-0">
+                         <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${item.tag === null ? 'bg-slate-800 text-slate-500' : 'bg-indigo-500/20 text-indigo-300'}`}>
+                           <Tag size={14} />
+                         </div>
+                         <div className="flex flex-col min-w-0">
+                            <span className={`font-bold text-lg leading-tight mb-1 ${item.tag === null ? 'text-slate-400' : 'text-white'}`}>{item.tag ?? t('stats.untagged')}</span>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                              <span className="flex items-baseline gap-1">
+                                {richText(t('stats.total'), { value: <span className="text-slate-300 font-bold tabular-nums">{formatNumber(item.total, locale)}</span> })}
+                              </span>
+                              <span className="flex items-baseline gap-1">
+                                {richText(t(granularityInfo.average), { value: <span className="text-indigo-400 font-bold tabular-nums">{formatNumber(item.total / item.periods, locale, { maximumFractionDigits: 1 })}</span> })}
+                              </span>
+                            </div>
+                            <div className="text-[10px] text-slate-600 mt-1 truncate" title={item.projectNames.join(', ')}>
+                              {t('stats.projectCount', { count: item.projectNames.length })} · {item.projectNames.join(', ')}
+                            </div>
+                         </div>
+                       </div>
+                       <div className="text-right pl-2">
+                         <div className="font-sans tabular-nums text-2xl font-black text-white">{formatNumber(item.periods, locale)}</div>
+                         <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">{t(granularityInfo.unit)}</div>
+                       </div>
+                     </div>
+                   ))
                  ) : (
-                   aggregatedStats.map((item, index) => {
-                     const average = item.occurrences > 0 ? (item.total / item.occurrences).toFixed(1).replace(/\.0$/, '') : "0";
+                   overviewStats.map((item, index) => {
+                     const average = formatNumber(item.periods > 0 ? item.total / item.periods : 0, locale, { maximumFractionDigits: 1 });
+                     const previousTotal = previousTotals ? previousTotals[item.name] || 0 : null;
+                     const change = previousTotal ? (item.total - previousTotal) / previousTotal : null;
                      let rankStyle = "bg-slate-800 text-slate-500";
                      let borderClass = "border-slate-800";
-                     if (index === 0) {
+                     // Projects only logged in the previous period are not ranked
+                     const rank = item.total > 0 ? index : -1;
+                     if (rank === 0) {
                         rankStyle = "bg-yellow-500 text-yellow-950 shadow-[0_0_15px_rgba(234,179,8,0.4)]";
                         borderClass = "border-yellow-500/30";
-                     } else if (index === 1) {
+                     } else if (rank === 1) {
                         rankStyle = "bg-slate-300 text-slate-900 shadow-[0_0_15px_rgba(203,213,225,0.3)]";
                         borderClass = "border-slate-400/30";
-                     } else if (index === 2) {
+                     } else if (rank === 2) {
                         rankStyle = "bg-orange-700 text-orange-100 shadow-[0_0_15px_rgba(194,65,12,0.3)]";
                         borderClass = "border-orange-700/30";
                      }
@@ -954,37 +2620,105 @@ const App: React.FC = () => {
                      <div key={item.name} className={`bg-slate-900/60 border ${borderClass} p-5 rounded-2xl flex items-center justify-between animate-in fade-in slide-in-from-bottom-2 duration-300`} style={{animationDelay: `${index * 50}ms`}}>
                        <div className="flex items-center gap-4 z-10">
                          <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-black flex-shrink-0 ${rankStyle}`}>
-                           {index < 3 ? <Trophy size={14} /> : index + 1}
+                           {rank < 0 ? '–' : rank < 3 ? <Trophy size={14} /> : rank + 1}
                          </div>
                          <div className="flex flex-col">
                             <span className="text-white font-bold text-lg leading-tight mb-1">{item.name}</span>
                             <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
                               <span className="flex items-baseline gap-1">
-                                總計：<span className="text-slate-300 font-bold tabular-nums">{item.total}</span>
+                                {richText(t('stats.total'), { value: <span className="text-slate-300 font-bold tabular-nums">{formatNumber(item.total, locale)}</span> })}
                               </span>
                               <span className="flex items-baseline gap-1">
-                                平均：<span className="text-indigo-400 font-bold tabular-nums">{average}</span>
+                                {richText(t(granularityInfo.average), { value: <span className="text-indigo-400 font-bold tabular-nums">{average}</span> })}
                               </span>
+                              {item.longestStreak > 0 && (
+                                <span className="flex items-baseline gap-1">
+                                  {richText(t('stats.streak'), { value: <span className="text-orange-400 font-bold tabular-nums">{formatNumber(item.currentStreak, locale)}</span> })}
+                                  <span className="text-slate-600">{t('stats.longestStreak', { days: item.longestStreak })}</span>
+                                </span>
+                              )}
+                              {item.goalHitRate !== null && (
+                                <span className="flex items-baseline gap-1" title={t('stats.goalSummary', { goal: item.goal ?? 0, days: item.goalDays })}>
+                                  {richText(t('stats.goalHitRate'), { value: <span className="text-emerald-400 font-bold tabular-nums">{formatNumber(Math.round(item.goalHitRate * 100) / 100, locale, { style: 'percent' })}</span> })}
+                                </span>
+                              )}
+                              {item.tags.map(tag => (
+                                <span key={tag} className="flex items-center gap-1 text-slate-400">
+                                  <Tag size={10} /> {tag}
+                                </span>
+                              ))}
                             </div>
                          </div>
                        </div>
                        <div className="text-right z-10 pl-2">
-                         <div className="font-sans tabular-nums text-2xl font-black text-white">{item.occurrences}</div>
-                         <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">天</div>
+                         <div className="font-sans tabular-nums text-2xl font-black text-white">{formatNumber(item.periods, locale)}</div>
+                         <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">{t(granularityInfo.unit)}</div>
+                         {previousTotal !== null && (
+                           <div
+                             title={t('stats.previousTotal', { total: previousTotal })}
+                             className={`mt-1 inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] font-bold tabular-nums ${
+                               change === null || change > 0 ? 'bg-emerald-500/10 text-emerald-400'
+                                 : change < 0 ? 'bg-rose-500/10 text-rose-400'
+                                 : 'bg-slate-800 text-slate-500'
+                             }`}
+                           >
+                             {change === null || change > 0 ? <TrendingUp size={10} /> : change < 0 ? <TrendingDown size={10} /> : <Minus size={10} />}
+                             {change === null
+                               ? t('stats.new')
+                               : formatNumber(Math.round(change * 100) / 100, locale, { style: 'percent', signDisplay: 'exceptZero' })}
+                           </div>
+                         )}
                        </div>
                      </div>
                    )})
                  )}
                  
+                 {measureStats.length > 0 && (
+                   <div className="space-y-3 pt-2">
+                     <div className="flex items-center gap-2 text-[10px] text-slate-500 font-bold uppercase tracking-widest ml-1">
+                       <Gauge size={12} /> {t('stats.measurements')}
+                     </div>
+                     {measureStats.map(item => (
+                       <div key={item.name} className="bg-slate-900/60 border border-slate-800 p-5 rounded-2xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+                         <div className="flex items-start justify-between gap-4 mb-3">
+                           <span className="text-white font-bold text-lg leading-tight">{item.name}</span>
+                           <div className="text-right">
+                             <div className="font-sans tabular-nums text-2xl font-black text-white leading-none">{formatMeasure(item.latest, item, locale)}</div>
+                             <div className="text-[10px] text-slate-500 font-bold mt-1">{t('stats.latest', { date: formatShortDate(item.latestDate, locale) })}</div>
+                           </div>
+                         </div>
+                         <div className="grid grid-cols-4 gap-2 text-center">
+                           {([
+                             ['stats.min', formatMeasure(item.min, { decimals: item.decimals }, locale)],
+                             ['stats.max', formatMeasure(item.max, { decimals: item.decimals }, locale)],
+                             ['stats.average', formatNumber(item.average, locale, { maximumFractionDigits: item.decimals + 1 })],
+                             ['stats.entries', formatNumber(item.entries, locale)]
+                           ] as [MessageKey, string][]).map(([label, value]) => (
+                             <div key={label} className="bg-slate-950/60 border border-slate-800/50 rounded-xl py-2">
+                               <div className="text-sm font-bold text-slate-200 tabular-nums">{value}</div>
+                               <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">{t(label)}</div>
+                             </div>
+                           ))}
+                         </div>
+                       </div>
+                     ))}
+                   </div>
+                 )}
+                 
                  {/* Stats Date Footer */}
                  <div className="flex flex-col items-center justify-center pt-6 pb-2 opacity-50 hover:opacity-100 transition-opacity">
                     <div className="flex items-center gap-2 text-[10px] text-slate-400 font-bold uppercase tracking-widest mb-1">
                       <CalendarRange size={12} />
-                      統計起始日 (Start Date)
+                      {t('stats.range')}
                     </div>
                     <div className="font-mono text-xs text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded border border-indigo-500/20">
-                      {statsStartDate.replace(/-/g, '/')}
+                      {formatRange(statsRange, locale, t)}
                     </div>
+                    {previousRange && (
+                      <div className="text-[10px] text-slate-500 mt-1.5">
+                        {t('stats.comparedWith', { range: formatRange(previousRange, locale, t) })}
+                      </div>
+                    )}
                  </div>
                </div>
             )}
@@ -992,25 +2726,28 @@ const App: React.FC = () => {
             {/* VIEW: HISTORY */}
             {statsView === 'history' && (
               <>
-                {historyData.length === 0 ? (
+                {periodHistory.length === 0 ? (
                   <div className="flex flex-col items-center justify-center h-64 text-slate-500">
                     <div className="p-6 bg-slate-900 rounded-full mb-4">
                       <Calendar size={32} className="opacity-20" />
                     </div>
-                    <p className="font-medium">尚無紀錄</p>
+                    <p className="font-medium">{t('stats.noEntries')}</p>
                   </div>
                 ) : (
                   <div className="relative">
                      <div className="absolute left-[19px] top-4 bottom-0 w-px bg-slate-800/50 z-0"></div>
-                    {historyData.map((dayStat, idx) => (
+                    {periodHistory.map((dayStat, idx) => (
                       <div key={dayStat.date} className="relative z-10 mb-8 animate-in fade-in slide-in-from-bottom-4 duration-500" style={{animationDelay: `${idx * 50}ms`}}>
                         <div className="flex items-start gap-4 mb-3">
                           <div className="flex-none flex items-center justify-center w-10 h-6 bg-slate-950 z-10">
                              <div className="w-3 h-3 rounded-full bg-indigo-500 shadow-[0_0_10px_rgba(99,102,241,0.5)]"></div>
                           </div>
                           <div className="flex-1 pt-0.5">
-                            <div className="text-slate-400 font-bold uppercase tracking-wide text-xs mb-3 flex items-center gap-2">
-                              {formatDateDisplay(dayStat.date)}
+                            <div className="text-slate-400 font-bold uppercase tracking-wide text-xs mb-3 flex items-center justify-between gap-2">
+                              <span>{formatPeriodLabel(dayStat.date, statsGranularity, locale, t)}</span>
+                              {dayStat.items.length > 1 && (
+                                <span className="tabular-nums text-slate-500">{formatNumber(dayStat.total, locale)}</span>
+                              )}
                             </div>
                             <div className="space-y-2">
                               {dayStat.items.map((item, itemIdx) => (
@@ -1018,14 +2755,17 @@ const App: React.FC = () => {
                                   <span className="text-slate-200 font-medium">{item.name}</span>
                                   <div className="flex items-center gap-3">
                                     <span className="font-sans tabular-nums text-indigo-300 font-bold bg-indigo-500/10 px-2.5 py-1 rounded-md text-sm">
-                                      {item.count}
+                                      {formatNumber(item.count, locale)}
                                     </span>
-                                    <button 
-                                      onClick={(e) => requestDeleteLog(item.projectId, dayStat.date, e)}
-                                      className="p-1.5 text-slate-600 hover:text-rose-400 hover:bg-rose-500/10 rounded-lg transition-colors"
-                                    >
-                                      <Trash2 size={16} />
-                                    </button>
+                                    {/* Only a single day's log can be deleted */}
+                                    {statsGranularity === 'day' && (
+                                      <button 
+                                        onClick={(e) => requestDeleteLog(item.projectId, dayStat.date, e)}
+                                        className="p-1.5 text-slate-600 hover:text-rose-400 hover:bg-rose-500/10 rounded-lg transition-colors"
+                                      >
+                                        <Trash2 size={16} />
+                                      </button>
+                                    )}
                                   </div>
                                 </div>
                               ))}
@@ -1038,6 +2778,278 @@ const App: React.FC = () => {
                 )}
               </>
             )}
+
+            {/* VIEW: TREND CHART */}
+            {statsView === 'chart' && (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <div className="flex flex-1 bg-slate-900/30 border border-slate-800 p-1 rounded-xl">
+                    <button
+                      onClick={() => setChartType('bar')}
+                      className={`flex-1 py-1.5 rounded-lg text-xs font-bold flex items-center justify-center gap-1.5 transition-all
+                        ${chartType === 'bar' ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      <ChartColumn size={14} /> {t('chart.bar')}
+                    </button>
+                    <button
+                      onClick={() => setChartType('line')}
+                      className={`flex-1 py-1.5 rounded-lg text-xs font-bold flex items-center justify-center gap-1.5 transition-all
+                        ${chartType === 'line' ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      <ChartLine size={14} /> {t('chart.line')}
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setChartShowAverage(prev => !prev)}
+                    className={`px-3 py-2 rounded-xl text-xs font-bold border transition-colors
+                      ${chartShowAverage ? 'bg-indigo-500/10 border-indigo-500/50 text-indigo-300' : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {t('chart.movingAverage', { days: MOVING_AVERAGE_DAYS })}
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setChartProjectNames([])}
+                    className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors
+                      ${chartData.series[0].name === null ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-white'}`}
+                  >
+                    {t('chart.allProjects')}
+                  </button>
+                  {counterProjectNames.map(name => {
+                    const s = chartData.series.find(s => s.name === name);
+                    return (
+                      <button
+                        key={name}
+                        onClick={() => toggleChartProject(name)}
+                        className={`px-3 py-1.5 rounded-full text-xs font-bold border flex items-center gap-1.5 transition-colors
+                          ${s ? 'bg-slate-800 border-slate-600 text-white' : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-white'}`}
+                      >
+                        {s && <span className={`w-2 h-2 rounded-full ${s.color.swatch}`} />}
+                        {name}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {chartData.max === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-20 text-slate-600">
+                    <ChartLine size={48} className="mb-4 opacity-20" />
+                    <p>{t('stats.empty')}</p>
+                    <p className="text-xs mt-2 text-slate-700">{t('stats.emptyHint')}</p>
+                  </div>
+                ) : (
+                  <div className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4">
+                    <div className="flex justify-between text-[10px] text-slate-500 font-bold tabular-nums mb-1">
+                      <span>{formatNumber(chartData.max, locale)}</span>
+                      <span>{t('chart.hint')}</span>
+                    </div>
+                    {/* Stretched to the card width; strokes keep their width via non-scaling-stroke */}
+                    <svg
+                      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                      preserveAspectRatio="none"
+                      className="w-full h-40 overflow-visible"
+                    >
+                      <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} className="stroke-slate-700" vectorEffect="non-scaling-stroke" />
+                      <line x1={0} y1={0} x2={CHART_WIDTH} y2={0} className="stroke-slate-800" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+                      {chartSelected !== null && (
+                        <rect x={chartSelected * chartSlot} y={0} width={chartSlot} height={CHART_HEIGHT} className="fill-slate-700/40" />
+                      )}
+                      {chartType === 'bar'
+                        ? chartData.dates.map((date, i) => {
+                            let offset = 0;
+                            return chartData.series.map(s => {
+                              const height = (s.values[i] / chartData.max) * CHART_HEIGHT;
+                              offset += height;
+                              return height > 0 && (
+                                <rect
+                                  key={`${date}-${s.name ?? 'all'}`}
+                                  x={i * chartSlot + chartSlot * 0.15}
+                                  y={CHART_HEIGHT - offset}
+                                  width={chartSlot * 0.7}
+                                  height={height}
+                                  className={`${s.color.fill} ${chartSelected !== null && chartSelected !== i ? 'opacity-50' : ''}`}
+                                />
+                              );
+                            });
+                          })
+                        : chartData.series.map(s => (
+                            <polyline
+                              key={s.name ?? 'all'}
+                              points={toChartPoints(s.values, chartData.max)}
+                              fill="none"
+                              strokeWidth={2}
+                              strokeLinejoin="round"
+                              className={s.color.stroke}
+                              vectorEffect="non-scaling-stroke"
+                            />
+                          ))}
+                      {chartShowAverage && (chartType === 'bar'
+                        ? (
+                          <polyline
+                            points={toChartPoints(chartData.totalAverage, chartData.max)}
+                            fill="none"
+                            strokeWidth={2}
+                            className="stroke-white"
+                            vectorEffect="non-scaling-stroke"
+                          />
+                        )
+                        : chartData.series.map(s => (
+                            <polyline
+                              key={`avg-${s.name ?? 'all'}`}
+                              points={toChartPoints(s.average, chartData.max)}
+                              fill="none"
+                              strokeWidth={1.5}
+                              strokeDasharray="4 3"
+                              className={`${s.color.stroke} opacity-70`}
+                              vectorEffect="non-scaling-stroke"
+                            />
+                          )))}
+                      {/* Full-height hit areas so thin bars and lines are easy to tap */}
+                      {chartData.dates.map((date, i) => (
+                        <rect
+                          key={`hit-${date}`}
+                          x={i * chartSlot}
+                          y={0}
+                          width={chartSlot}
+                          height={CHART_HEIGHT}
+                          fill="transparent"
+                          className="cursor-pointer"
+                          onClick={() => setChartSelectedIndex(chartSelected === i ? null : i)}
+                        />
+                      ))}
+                    </svg>
+                    <div className="flex justify-between text-[10px] text-slate-500 font-mono mt-2">
+                      <span>{formatShortDate(chartData.dates[0], locale)}</span>
+                      <span>{formatShortDate(chartData.dates[chartData.dates.length - 1], locale)}</span>
+                    </div>
+
+                    {chartSelected !== null && (
+                      <div className="mt-4 pt-4 border-t border-slate-800 space-y-2 animate-in fade-in duration-200">
+                        <div className="flex items-center justify-between">
+                          <span className="text-slate-400 font-bold uppercase tracking-wide text-xs">{formatDateDisplay(chartData.dates[chartSelected], locale, t)}</span>
+                          {chartData.series.length > 1 && (
+                            <span className="text-white font-black tabular-nums">{formatNumber(chartData.totals[chartSelected], locale)}</span>
+                          )}
+                        </div>
+                        {chartData.series.map(s => (
+                          <div key={s.name ?? 'all'} className="flex items-center justify-between text-sm">
+                            <span className="flex items-center gap-2 text-slate-300">
+                              <span className={`w-2 h-2 rounded-full ${s.color.swatch}`} />
+                              {s.name ?? t('chart.allProjects')}
+                            </span>
+                            <span className="flex items-baseline gap-2 tabular-nums">
+                              {chartShowAverage && (
+                                <span className="text-[10px] text-slate-500">
+                                  {t('chart.averageValue', { value: formatNumber(s.average[chartSelected], locale, { maximumFractionDigits: 1 }) })}
+                                </span>
+                              )}
+                              <span className="font-bold text-indigo-300">{formatNumber(s.values[chartSelected], locale)}</span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* VIEW: CALENDAR */}
+            {statsView === 'calendar' && (
+              <div className="space-y-6">
+                <div className="relative">
+                  <select
+                    value={calendarProjectName}
+                    onChange={(e) => setCalendarProjectName(e.target.value)}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-colors appearance-none"
+                  >
+                    <option value="all" className="bg-slate-900 text-white">{t('calendar.allProjects')}</option>
+                    {counterProjectNames.map(name => (
+                      <option key={name} value={name} className="bg-slate-900 text-white">{name}</option>
+                    ))}
+                  </select>
+                  <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-500">
+                    <ChevronDown size={16} />
+                  </div>
+                </div>
+
+                {calendarData.months.map(month => (
+                  <div key={month.key} className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4">
+                    <div className="text-slate-400 font-bold text-xs uppercase tracking-wide mb-3">{month.label}</div>
+                    <div className="grid grid-cols-7 gap-1.5 text-center">
+                      {weekdayLabels.map((label, i) => (
+                        <div key={i} className="text-[10px] text-slate-600 font-bold pb-1">{label}</div>
+                      ))}
+                      {Array.from({ length: month.firstWeekday }, (_, i) => (
+                        <div key={`pad-${i}`} />
+                      ))}
+                      {month.days.map(day => (
+                        <button
+                          key={day.date}
+                          disabled={!day.inRange || day.count === 0}
+                          onClick={() => setCalendarSelectedDate(day.date)}
+                          title={day.count > 0 ? `${formatShortDate(day.date, locale)}: ${formatNumber(day.count, locale)}` : formatShortDate(day.date, locale)}
+                          className={`aspect-square rounded-md text-[11px] font-bold tabular-nums flex items-center justify-center transition-transform
+                            ${day.inRange ? getHeatClass(day.count, calendarData.max) : 'bg-transparent text-slate-800'}
+                            ${day.count > 0 && day.inRange ? 'hover:scale-110 active:scale-95' : 'cursor-default'}
+                            ${day.date === getTodayString() ? 'ring-1 ring-indigo-300' : ''}`}
+                        >
+                          {day.day}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-center gap-1.5 text-[10px] text-slate-500 pb-2">
+                  {t('calendar.less')}
+                  {[0, 0.2, 0.4, 0.6, 0.9].map(level => (
+                    <div key={level} className={`w-3 h-3 rounded-sm ${getHeatClass(level, 1)}`} />
+                  ))}
+                  {t('calendar.more')}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* --- Calendar Day Breakdown Modal --- */}
+      {calendarSelectedDay && (
+        <div
+          className="absolute inset-0 z-[80] bg-slate-950/80 backdrop-blur-sm flex items-end sm:items-center justify-center p-4 animate-in fade-in duration-200"
+          onClick={() => setCalendarSelectedDate(null)}
+        >
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 w-full max-w-sm shadow-2xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <div className="text-slate-400 font-bold uppercase tracking-wide text-xs mb-1">
+                  {formatDateDisplay(calendarSelectedDay.date, locale, t)}
+                </div>
+                <div className="text-2xl font-black text-white tabular-nums">{formatNumber(calendarSelectedDay.total, locale)}</div>
+              </div>
+              <button 
+                onClick={() => setCalendarSelectedDate(null)}
+                className="p-2 bg-slate-800 rounded-full text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+            <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {calendarSelectedDay.items.map(item => (
+                <div
+                  key={item.projectId}
+                  className={`bg-slate-950/60 border p-3 rounded-xl flex justify-between items-center
+                    ${calendarProjectName === item.name.trim() ? 'border-indigo-500/50' : 'border-slate-800/50'}`}
+                >
+                  <span className="text-slate-200 font-medium">{item.name}</span>
+                  <span className="font-sans tabular-nums text-indigo-300 font-bold bg-indigo-500/10 px-2.5 py-1 rounded-md text-sm">
+                    {formatNumber(item.count, locale)}
+                  </span>
+                </div>
+              ))}
+            </div>
           </div>
         </div>
       )}
@@ -1050,22 +3062,49 @@ const App: React.FC = () => {
                <div className="p-3 bg-indigo-500/10 rounded-2xl">
                  <CalendarRange size={24} />
                </div>
-               <h2 className="text-xl font-bold text-white">設定統計起始日</h2>
+               <h2 className="text-xl font-bold text-white">{t('dateSettings.title')}</h2>
              </div>
              
              <div className="space-y-4 mb-8">
+               <div className="grid grid-cols-2 gap-2">
+                 {RANGE_PRESETS.map(preset => (
+                   <button
+                     key={preset.value}
+                     onClick={() => handleRangePresetChange(preset.value)}
+                     className={`py-2.5 rounded-xl text-sm font-bold border transition-colors ${statsRangePreset === preset.value ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950/60 border-slate-800 text-slate-400 hover:text-white'}`}
+                   >
+                     {t(preset.label)}
+                   </button>
+                 ))}
+               </div>
                <div className="space-y-2">
-                 <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">選擇日期</label>
-                 <input
-                   type="date"
-                   max={getTodayString()}
-                   value={statsStartDate}
-                   onChange={handleStatsDateChange}
-                   className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-4 text-white outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-colors [color-scheme:dark]"
-                 />
+                 <label className={`text-xs font-bold uppercase tracking-widest ${statsRangePreset === 'custom' ? 'text-indigo-400' : 'text-slate-500'}`}>{t('dateSettings.custom')}</label>
+                 <div className="grid grid-cols-2 gap-2">
+                   <div className="space-y-1">
+                     <div className="text-[10px] text-slate-500">{t('dateSettings.start')}</div>
+                     <input
+                       type="date"
+                       max={statsRange.end}
+                       value={statsRange.start}
+                       onChange={(e) => handleCustomRangeChange(e.target.value, statsRange.end)}
+                       className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-3 text-sm text-white outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-colors [color-scheme:dark]"
+                     />
+                   </div>
+                   <div className="space-y-1">
+                     <div className="text-[10px] text-slate-500">{t('dateSettings.end')}</div>
+                     <input
+                       type="date"
+                       min={statsRange.start || undefined}
+                       max={getTodayString()}
+                       value={statsRange.end}
+                       onChange={(e) => handleCustomRangeChange(statsRange.start || getSixMonthsAgoString(), e.target.value)}
+                       className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-3 text-sm text-white outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-colors [color-scheme:dark]"
+                     />
+                   </div>
+                 </div>
                </div>
                <p className="text-xs text-slate-500 leading-relaxed">
-                 統計數據將從此日期開始計算，早於此日期的紀錄將不會顯示在統計列表中。
+                 {t('dateSettings.hint')}
                </p>
              </div>
 
@@ -1073,7 +3112,49 @@ const App: React.FC = () => {
                onClick={() => setShowDateSettings(false)}
                className="w-full py-3.5 rounded-xl font-bold bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-900/20 transition-colors"
              >
-               確定
+               {t('common.ok')}
+             </button>
+           </div>
+        </div>
+      )}
+
+      {/* --- CSV Export Modal --- */}
+      {showCsvExport && (
+        <div className="absolute inset-0 z-[80] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+           <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 w-full max-w-sm shadow-2xl">
+             <div className="flex items-center gap-4 mb-6 text-indigo-400">
+               <div className="p-3 bg-indigo-500/10 rounded-2xl">
+                 <FileSpreadsheet size={24} />
+               </div>
+               <h2 className="text-xl font-bold text-white">{t('csv.title')}</h2>
+             </div>
+
+             <div className="space-y-3 mb-4">
+               <button
+                 onClick={() => handleExportCsv('long')}
+                 className="w-full text-left p-4 rounded-xl bg-slate-950/60 border border-slate-800 hover:border-indigo-500/50 transition-colors"
+               >
+                 <div className="font-bold text-white mb-1">{t('csv.long')}</div>
+                 <div className="text-xs text-slate-500">{t('csv.longHint')}</div>
+               </button>
+               <button
+                 onClick={() => handleExportCsv('wide')}
+                 className="w-full text-left p-4 rounded-xl bg-slate-950/60 border border-slate-800 hover:border-indigo-500/50 transition-colors"
+               >
+                 <div className="font-bold text-white mb-1">{t('csv.wide')}</div>
+                 <div className="text-xs text-slate-500">{t('csv.wideHint')}</div>
+               </button>
+             </div>
+
+             <p className="text-xs text-slate-500 leading-relaxed mb-6">
+               {richText(t('csv.range'), { range: <span className="font-mono text-indigo-400">{formatRange(statsRange, locale, t)}</span> })}
+             </p>
+
+             <button
+               onClick={() => setShowCsvExport(false)}
+               className="w-full py-3.5 rounded-xl font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+             >
+               {t('common.cancel')}
              </button>
            </div>
         </div>
@@ -1088,7 +3169,7 @@ const App: React.FC = () => {
               <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400">
                 <CalendarPlus size={20} />
               </div>
-              補填/修改紀錄
+              {t('manualLog.title')}
             </h2>
             <button 
               onClick={() => {
@@ -1105,7 +3186,7 @@ const App: React.FC = () => {
             
             {/* Project Selector (Dropdown) */}
             <div className="space-y-3">
-              <label className="text-sm font-bold text-slate-400 ml-1 uppercase tracking-wider">選擇項目</label>
+              <label className="text-sm font-bold text-slate-400 ml-1 uppercase tracking-wider">{t('manualLog.project')}</label>
               <div className="relative">
                   <select
                     value={manualLogProjectId}
@@ -1123,13 +3204,13 @@ const App: React.FC = () => {
                   </div>
               </div>
               <p className="text-[10px] text-slate-500 text-right">
-                  僅顯示最近建立的 10 個項目
+                  {t('manualLog.recentOnly')}
               </p>
             </div>
 
             {/* Date Input */}
             <div className="space-y-3">
-              <label className="text-sm font-bold text-slate-400 ml-1 uppercase tracking-wider">日期</label>
+              <label className="text-sm font-bold text-slate-400 ml-1 uppercase tracking-wider">{t('manualLog.date')}</label>
               <input
                 type="date"
                 max={getTodayString()}
@@ -1141,11 +3222,17 @@ const App: React.FC = () => {
 
             {/* Count Input */}
             <div className="space-y-3">
-              <label className="text-sm font-bold text-slate-400 ml-1 uppercase tracking-wider">次數</label>
+              <label className="text-sm font-bold text-slate-400 ml-1 uppercase tracking-wider">
+                {manualLogIsMeasure
+                  ? (manualLogProject!.unit ? `${t('manualLog.value')} (${manualLogProject!.unit})` : t('manualLog.value'))
+                  : t('manualLog.count')}
+              </label>
               <input
                 type="number"
-                pattern="\d*"
-                placeholder="輸入數字"
+                pattern={manualLogIsMeasure ? undefined : '\\d*'}
+                inputMode={manualLogIsMeasure ? 'decimal' : undefined}
+                step={manualLogIsMeasure ? 10 ** -getDecimals(manualLogProject!) : undefined}
+                placeholder={t('manualLog.countPlaceholder')}
                 value={manualLogCount}
                 onChange={(e) => setManualLogCount(e.target.value)}
                 className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3.5 text-xl font-bold text-white outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-colors placeholder:text-slate-600"
@@ -1157,8 +3244,16 @@ const App: React.FC = () => {
                 disabled={!manualLogProjectId || manualLogCount === ''}
                 className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all active:scale-95 disabled:opacity-50 disabled:scale-100 shadow-lg shadow-indigo-900/20 mt-4"
               >
-                儲存紀錄
+                {t('manualLog.submit')}
             </button>
+            {manualLogIsMeasure && hasLogOn(manualLogProject!, manualLogDate) && (
+              <button
+                onClick={handleManualLogClear}
+                className="w-full py-3 border border-slate-800 text-rose-300 hover:bg-rose-950/40 rounded-xl font-bold transition-all active:scale-95"
+              >
+                {t('manualLog.clear')}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -1177,8 +3272,8 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-xl font-bold text-white">
                 {deleteTarget.type === 'project' 
-                  ? (deleteTarget.hasHistory ? '封存今日項目' : '刪除項目') 
-                  : '刪除紀錄'}
+                  ? t(deleteTarget.hasHistory ? 'delete.archiveTitle' : 'delete.projectTitle')
+                  : t(deleteTarget.type === 'purge' ? 'delete.purgeTitle' : 'delete.logTitle')}
               </h2>
             </div>
             
@@ -1186,27 +3281,34 @@ const App: React.FC = () => {
               {deleteTarget.type === 'project' ? (
                 deleteTarget.hasHistory ? (
                   <>
-                    確定要將 "<span className="text-white font-bold">{deleteTarget.name}</span>" 從今日列表移除嗎？
+                    {richText(t('delete.archiveConfirm'), { name: <span className="text-white font-bold">{deleteTarget.name}</span> })}
                     <div className="mt-3 p-3 bg-slate-800/80 border border-indigo-500/30 rounded-xl text-xs text-slate-300 font-medium flex items-start gap-2">
                        <Check size={14} className="text-indigo-400 mt-0.5" />
                        <div>
-                        過去的統計資料將會<span className="text-white font-bold">完整保留</span>。
-                        <br/><span className="text-slate-500">下次輸入相同名稱即可找回此項目。</span>
+                        {richText(t('delete.archiveKept'), { kept: <span className="text-white font-bold">{t('delete.archiveKeptEmphasis')}</span> })}
+                        <br/><span className="text-slate-500">{t('delete.archiveRestoreHint')}</span>
                        </div>
                     </div>
                   </>
                 ) : (
                   <>
-                    確定要刪除 "<span className="text-white font-bold">{deleteTarget.name}</span>" 嗎？
+                    {richText(t('delete.projectConfirm'), { name: <span className="text-white font-bold">{deleteTarget.name}</span> })}
                     <div className="mt-3 p-3 bg-rose-900/20 border border-rose-900/30 rounded-xl text-xs text-rose-300 font-medium">
-                      ⚠️ 此項目無歷史紀錄，將會被永久刪除。
+                      {t('delete.projectWarning')}
                     </div>
                   </>
                 )
+              ) : deleteTarget.type === 'purge' ? (
+                <>
+                  {richText(t('delete.purgeConfirm'), { name: <span className="text-white font-bold">{deleteTarget.name}</span> })}
+                  <div className="mt-3 p-3 bg-rose-900/20 border border-rose-900/30 rounded-xl text-xs text-rose-300 font-medium">
+                    {t('delete.purgeWarning')}
+                  </div>
+                </>
               ) : (
                 <>
-                  確定要刪除此筆歷史紀錄嗎？
-                  <div className="mt-2 text-xs text-slate-500">僅刪除當日的計數紀錄。</div>
+                  {t('delete.logConfirm')}
+                  <div className="mt-2 text-xs text-slate-500">{t('delete.logHint')}</div>
                 </>
               )}
             </div>
@@ -1216,7 +3318,7 @@ const App: React.FC = () => {
                 onClick={() => setDeleteTarget(null)}
                 className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
               >
-                取消
+                {t('common.cancel')}
               </button>
               <button 
                 onClick={executeDelete}
@@ -1226,13 +3328,191 @@ const App: React.FC = () => {
                     : 'bg-rose-600 hover:bg-rose-500 shadow-rose-900/20'
                   }`}
               >
-                {deleteTarget.type === 'project' && deleteTarget.hasHistory ? '確認移除' : '確認刪除'}
+                {t(deleteTarget.type === 'project' && deleteTarget.hasHistory ? 'delete.confirmArchive' : 'delete.confirmDelete')}
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {/* --- Today's Taps Modal --- */}
+      {showTodayTaps && (
+        <div className="absolute inset-0 z-50 bg-slate-950 flex flex-col animate-in slide-in-from-bottom duration-300">
+          <div className="p-5 flex items-center justify-between border-b border-slate-800 bg-slate-900/50">
+            <h2 className="text-xl font-bold text-white flex items-center gap-3">
+              <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400">
+                <History size={20} />
+              </div>
+              <span className="truncate max-w-[220px]">{t('taps.title', { name: activeProject?.name ?? '' })}</span>
+            </h2>
+            <button 
+              onClick={() => setShowTodayTaps(false)}
+              className="p-2 bg-slate-800 rounded-full text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-2 pb-12">
+            {todayTapEvents.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 text-slate-500">
+                <div className="p-6 bg-slate-900 rounded-full mb-4">
+                  <History size={32} className="opacity-20" />
+                </div>
+                <p className="font-medium">{t('taps.empty')}</p>
+              </div>
+            ) : (
+              todayTapEvents.map(({ event, gap }) => (
+                <div key={event.id} className="bg-slate-900/60 border border-slate-800/50 p-3 rounded-xl flex justify-between items-center">
+                  <div className="flex items-center gap-3">
+                    <span className="font-mono text-sm text-slate-300">{formatTime(event.at, locale)}</span>
+                    {gap !== null && (
+                      <span className="text-[10px] text-slate-500 tabular-nums">+{formatInterval(gap, t)}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`font-sans tabular-nums font-bold px-2.5 py-1 rounded-md text-sm
+                      ${event.delta > 0 ? 'text-indigo-300 bg-indigo-500/10' : 'text-rose-300 bg-rose-500/10'}`}>
+                      {event.delta > 0 ? `+${event.delta}` : t('taps.correction', { delta: event.delta })}
+                    </span>
+                    <button 
+                      onClick={() => activeProject && handleRemoveTapEvent(activeProject.id, event.id)}
+                      className="p-1.5 text-slate-600 hover:text-rose-400 hover:bg-rose-500/10 rounded-lg transition-colors"
+                      title={t('taps.remove')}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* --- Goal Settings Modal --- */}
+      {showGoalSettings && (
+        <div className="absolute inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 w-full max-w-sm shadow-2xl">
+            <div className="flex items-center gap-4 mb-6 text-indigo-400">
+              <div className="p-3 bg-indigo-500/10 rounded-2xl">
+                <Target size={24} />
+              </div>
+              <h2 className="text-xl font-bold text-white">{t('goal.title')}</h2>
+            </div>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSetGoal();
+              }}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t('goal.label')}</label>
+                <input
+                  type="number"
+                  min={0}
+                  pattern="\d*"
+                  placeholder={t('goal.placeholder')}
+                  value={goalValue}
+                  onChange={(e) => setGoalValue(e.target.value)}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-4 text-xl font-bold text-white outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-colors placeholder:text-slate-600"
+                  autoFocus
+                />
+              </div>
+              <p className="text-xs text-slate-500 leading-relaxed">
+                {t('goal.hint')}
+              </p>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowGoalSettings(false)}
+                  className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-900/20 transition-colors"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* --- Step Settings Modal --- */}
+      {showStepSettings && (
+        <div className="absolute inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 w-full max-w-sm shadow-2xl">
+            <div className="flex items-center gap-4 mb-6 text-indigo-400">
+              <div className="p-3 bg-indigo-500/10 rounded-2xl">
+                <Plus size={24} />
+              </div>
+              <h2 className="text-xl font-bold text-white">{t('step.title')}</h2>
+            </div>
+
+            <p className="text-xs text-slate-500 mb-4">
+              {richText(t('step.description'), { name: <span className="text-slate-300 font-bold">{activeProject?.name}</span> })}
+            </p>
+
+            <div className="grid grid-cols-3 gap-3 mb-4">
+              {STEP_PRESETS.map(step => (
+                <button
+                  key={step}
+                  onClick={() => handleSetStep(step)}
+                  className={`py-3 rounded-xl font-bold tabular-nums transition-colors border
+                    ${getStep(activeProject) === step
+                      ? 'bg-indigo-600 text-white border-indigo-500'
+                      : 'bg-slate-950/60 text-slate-300 border-slate-800 hover:border-indigo-500/50'}`}
+                >
+                  +{step}
+                </button>
+              ))}
+            </div>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSetStep(parseInt(customStepValue, 10));
+              }}
+              className="flex gap-3 mb-6"
+            >
+              <input
+                type="number"
+                min={1}
+                pattern="\d*"
+                placeholder={t('step.customPlaceholder')}
+                value={customStepValue}
+                onChange={(e) => setCustomStepValue(e.target.value)}
+                className="flex-1 bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-white outline-none focus:border-indigo-500 transition-colors placeholder:text-slate-600"
+              />
+              <button
+                type="submit"
+                disabled={!(parseInt(customStepValue, 10) > 0)}
+                className="px-4 rounded-xl font-bold bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 transition-colors"
+              >
+                <Check size={20} />
+              </button>
+            </form>
+
+            <button
+              onClick={() => {
+                setCustomStepValue('');
+                setShowStepSettings(false);
+              }}
+              className="w-full py-3.5 rounded-xl font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* --- Reset Confirmation Modal --- */}
       {showResetConfirm && (
         <div className="absolute inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -1241,14 +3521,14 @@ const App: React.FC = () => {
               <div className="p-3 bg-rose-500/10 rounded-2xl">
                 <RotateCcw size={24} />
               </div>
-              <h2 className="text-xl font-bold text-white">歸零確認</h2>
+              <h2 className="text-xl font-bold text-white">{t('reset.title')}</h2>
             </div>
             <p className="text-slate-400 mb-8 leading-relaxed">
-              將 "<span className="text-white font-bold">{activeProject?.name}</span>" 目前顯示的數字歸零？
+              {richText(t('reset.confirm'), { name: <span className="text-white font-bold">{activeProject?.name}</span> })}
               <br/>
               <span className="text-xs text-slate-500 mt-2 block bg-slate-800/50 p-2 rounded-lg">
                 <Check size={12} className="inline mr-1" />
-                歷史統計紀錄不會被刪除，請放心。
+                {t('reset.hint')}
               </span>
             </p>
             <div className="flex gap-3">
@@ -1256,19 +3536,274 @@ const App: React.FC = () => {
                 onClick={() => setShowResetConfirm(false)}
                 className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
               >
-                取消
+                {t('common.cancel')}
               </button>
               <button 
                 onClick={handleReset}
                 className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-rose-600 text-white hover:bg-rose-500 shadow-lg shadow-rose-900/20 transition-colors"
               >
-                確認歸零
+                {t('reset.submit')}
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {/* --- Day Start Settings Modal --- */}
+      {showDayStartSettings && (
+        <div className="absolute inset-0 z-[70] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 w-full max-w-sm shadow-2xl">
+            <div className="flex items-center gap-4 mb-6 text-indigo-400">
+              <div className="p-3 bg-indigo-500/10 rounded-2xl">
+                <Clock size={24} />
+              </div>
+              <h2 className="text-xl font-bold text-white">{t('dayStart.title')}</h2>
+            </div>
+
+            <p className="text-xs text-slate-500 mb-4 leading-relaxed">
+              {t('dayStart.hint')}
+            </p>
+
+            <div className="grid grid-cols-4 gap-2 mb-6">
+              {DAY_START_HOUR_OPTIONS.map(hour => (
+                <button
+                  key={hour}
+                  onClick={() => handleDayStartHourChange(hour)}
+                  className={`py-3 rounded-xl font-bold text-sm tabular-nums transition-colors border
+                    ${dayStartHour === hour
+                      ? 'bg-indigo-600 text-white border-indigo-500'
+                      : 'bg-slate-950/60 text-slate-300 border-slate-800 hover:border-indigo-500/50'}`}
+                >
+                  {formatHour(hour)}
+                </button>
+              ))}
+            </div>
+
+            <button
+              onClick={() => setShowDayStartSettings(false)}
+              className="w-full py-3.5 rounded-xl font-bold bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-900/20 transition-colors"
+            >
+              {t('common.ok')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* --- Feedback Settings Modal --- */}
+      {showFeedbackSettings && (
+        <div className="absolute inset-0 z-[70] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 w-full max-w-sm shadow-2xl">
+            <div className="flex items-center gap-4 mb-6 text-indigo-400">
+              <div className="p-3 bg-indigo-500/10 rounded-2xl">
+                <Vibrate size={24} />
+              </div>
+              <h2 className="text-xl font-bold text-white">{t('feedback.title')}</h2>
+            </div>
+
+            <div className="space-y-5 mb-6">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm font-bold text-slate-200">{t('feedback.vibration')}</div>
+                  <div className="text-xs text-slate-500">{t(isVibrationSupported() ? 'feedback.vibrationHint' : 'feedback.vibrationUnsupported')}</div>
+                </div>
+                <button
+                  role="switch"
+                  aria-checked={feedbackSettings.vibrationEnabled}
+                  onClick={() => updateFeedbackSettings({ vibrationEnabled: !feedbackSettings.vibrationEnabled })}
+                  className={`relative w-12 h-7 rounded-full border transition-colors flex-none ${feedbackSettings.vibrationEnabled ? 'bg-indigo-600 border-indigo-500' : 'bg-slate-800 border-slate-700'}`}
+                >
+                  <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform ${feedbackSettings.vibrationEnabled ? 'translate-x-5' : ''}`} />
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm font-bold text-slate-200">{t('feedback.sound')}</div>
+                  <div className="text-xs text-slate-500">{t('feedback.soundHint')}</div>
+                </div>
+                <button
+                  role="switch"
+                  aria-checked={feedbackSettings.soundEnabled}
+                  onClick={() => updateFeedbackSettings({ soundEnabled: !feedbackSettings.soundEnabled })}
+                  className={`relative w-12 h-7 rounded-full border transition-colors flex-none ${feedbackSettings.soundEnabled ? 'bg-indigo-600 border-indigo-500' : 'bg-slate-800 border-slate-700'}`}
+                >
+                  <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform ${feedbackSettings.soundEnabled ? 'translate-x-5' : ''}`} />
+                </button>
+              </div>
+
+              <div className={`space-y-2 ${feedbackSettings.soundEnabled ? '' : 'opacity-40'}`}>
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t('feedback.volume')}</label>
+                  <span className="text-xs text-slate-400 tabular-nums">{formatNumber(feedbackSettings.volume / 100, locale, { style: 'percent' })}</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={feedbackSettings.volume}
+                  disabled={!feedbackSettings.soundEnabled}
+                  onChange={(e) => updateFeedbackSettings({ volume: parseInt(e.target.value, 10) })}
+                  className="w-full accent-indigo-500"
+                />
+              </div>
+
+              <p className="text-xs text-slate-500 leading-relaxed">
+                {t('feedback.milestoneHint')}
+              </p>
+
+              <div className="grid grid-cols-3 gap-2">
+                {([['tap', 'feedback.previewTap'], ['milestone', 'feedback.previewMilestone'], ['goal', 'feedback.previewGoal']] as const).map(([kind, label]) => (
+                  <button
+                    key={kind}
+                    onClick={() => playFeedback(kind, feedbackSettings)}
+                    className="py-2.5 rounded-xl text-xs font-bold bg-slate-950/60 text-slate-300 border border-slate-800 hover:border-indigo-500/50 flex items-center justify-center gap-1.5 transition-colors"
+                  >
+                    <Volume2 size={14} /> {t(label)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={() => setShowFeedbackSettings(false)}
+              className="w-full py-3.5 rounded-xl font-bold bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-900/20 transition-colors"
+            >
+              {t('common.ok')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* --- Keyboard Shortcuts Modal --- */}
+      {showShortcuts && (
+        <div
+          className="absolute inset-0 z-[80] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200"
+          onClick={() => setShowShortcuts(false)}
+        >
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 w-full max-w-sm shadow-2xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center gap-4 mb-6 text-indigo-400">
+              <div className="p-3 bg-indigo-500/10 rounded-2xl">
+                <Keyboard size={24} />
+              </div>
+              <h2 className="text-xl font-bold text-white">{t('shortcuts.title')}</h2>
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-4 mb-6">
+              <div className="space-y-2">
+                {SHORTCUTS.map(({ keys, label }) => (
+                  <div key={label} className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-slate-300">{t(label)}</span>
+                    <div className="flex gap-1.5 flex-none">
+                      {keys.map(k => (
+                        <kbd key={k} className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-xs font-mono text-slate-200">{k}</kbd>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {shortcutProjects.length > 1 && (
+                <div className="pt-4 border-t border-slate-800 space-y-2">
+                  <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t('shortcuts.projectNumbers')}</p>
+                  {shortcutProjects.slice(0, 9).map((p, i) => (
+                    <div key={p.id} className="flex items-center gap-3 text-sm">
+                      <kbd className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-xs font-mono text-slate-200">{i + 1}</kbd>
+                      <span className={`truncate ${p.id === activeProjectId ? 'text-indigo-300 font-bold' : 'text-slate-300'}`}>{p.name}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <p className="text-xs text-slate-500 leading-relaxed">
+                {t('shortcuts.hint')}
+              </p>
+            </div>
+
+            <button
+              onClick={() => setShowShortcuts(false)}
+              className="w-full py-3.5 rounded-xl font-bold bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-900/20 transition-colors"
+            >
+              {t('common.ok')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* --- Import Preview Modal --- */}
+      {(pendingImport || importError) && (
+        <div className="absolute inset-0 z-[70] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 w-full max-w-sm shadow-2xl">
+            <div className={`flex items-center gap-4 mb-4 ${importError ? 'text-rose-500' : 'text-indigo-400'}`}>
+              <div className={`p-3 rounded-2xl ${importError ? 'bg-rose-500/10' : 'bg-indigo-500/10'}`}>
+                {importError ? <AlertTriangle size={24} /> : <FileBraces size={24} />}
+              </div>
+              <h2 className="text-xl font-bold text-white">
+                {t(importError ? 'import.failed' : 'import.title')}
+              </h2>
+            </div>
+
+            {importError ? (
+              <>
+                <p className="text-slate-400 mb-8 leading-relaxed">{importError}</p>
+                <button
+                  onClick={() => setImportError(null)}
+                  className="w-full py-3.5 rounded-xl font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+                >
+                  {t('common.close')}
+                </button>
+              </>
+            ) : pendingImport && (
+              <>
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  <div className="bg-slate-950/60 border border-slate-800 rounded-xl p-3">
+                    <div className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-1">{t('import.projects')}</div>
+                    <div className="text-2xl font-black text-white tabular-nums">{formatNumber(pendingImport.summary.projectCount, locale)}</div>
+                  </div>
+                  <div className="bg-slate-950/60 border border-slate-800 rounded-xl p-3">
+                    <div className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-1">{t('import.totalTaps')}</div>
+                    <div className="text-2xl font-black text-indigo-300 tabular-nums">{formatNumber(pendingImport.summary.totalTaps, locale)}</div>
+                  </div>
+                  <div className="col-span-2 bg-slate-950/60 border border-slate-800 rounded-xl p-3">
+                    <div className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-1">{t('import.period')}</div>
+                    <div className="font-mono text-sm text-slate-300">
+                      {pendingImport.summary.firstDate && pendingImport.summary.lastDate
+                        ? `${formatShortDate(pendingImport.summary.firstDate, locale)} – ${formatShortDate(pendingImport.summary.lastDate, locale)}`
+                        : t('import.noEntries')}
+                    </div>
+                  </div>
+                </div>
+
+                <p className="text-xs text-slate-500 leading-relaxed mb-6">
+                  {t('import.modeHint')}
+                </p>
+
+                <div className="flex gap-3 mb-3">
+                  <button
+                    onClick={() => applyImport('merge')}
+                    className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-900/20 transition-colors"
+                  >
+                    {t('import.merge')}
+                  </button>
+                  <button
+                    onClick={() => applyImport('replace')}
+                    className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-rose-600 text-white hover:bg-rose-500 shadow-lg shadow-rose-900/20 transition-colors"
+                  >
+                    {t('import.replace')}
+                  </button>
+                </div>
+                <button
+                  onClick={() => setPendingImport(null)}
+                  className="w-full py-3.5 px-4 rounded-xl font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+                >
+                  {t('common.cancel')}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* --- Factory Reset Confirmation Modal --- */}
       {showFactoryResetConfirm && (
         <div className="absolute inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -1277,13 +3812,13 @@ const App: React.FC = () => {
               <div className="p-3 bg-rose-500/10 rounded-2xl">
                 <AlertTriangle size={24} />
               </div>
-              <h2 className="text-xl font-bold text-white">恢復出廠設定</h2>
+              <h2 className="text-xl font-bold text-white">{t('factoryReset.title')}</h2>
             </div>
             
             <div className="text-slate-400 mb-8 leading-relaxed">
-              確定要清除所有資料並重置嗎？
+              {t('factoryReset.confirm')}
               <div className="mt-3 p-3 bg-rose-900/20 border border-rose-900/30 rounded-xl text-xs text-rose-300 font-medium">
-                ⚠️ 此動作將永久刪除「所有」專案、計數紀錄及常用名稱，且無法復原。
+                {t('factoryReset.warning')}
               </div>
             </div>
 
@@ -1292,13 +3827,13 @@ const App: React.FC = () => {
                 onClick={() => setShowFactoryResetConfirm(false)}
                 className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
               >
-                取消
+                {t('common.cancel')}
               </button>
               <button 
                 onClick={handleFactoryReset}
                 className="flex-1 py-3.5 px-4 rounded-xl font-bold bg-rose-600 text-white hover:bg-rose-500 shadow-lg shadow-rose-900/20 transition-colors"
               >
-                確認重置
+                {t('factoryReset.submit')}
               </button>
             </div>
           </div>
@@ -0,0 +1,113 @@
+// --- Tap Feedback (Vibration / Sound) ---
+//
+// Lets a tap be felt or heard without looking at the screen. Sounds are generated
+// with Web Audio so nothing has to be downloaded or cached.
+
+export type FeedbackKind = 'tap' | 'decrement' | 'milestone' | 'goal';
+
+export interface FeedbackSettings {
+  vibrationEnabled: boolean;
+  soundEnabled: boolean;
+  volume: number; // 0-100
+}
+
+export const FEEDBACK_SETTINGS_KEY = 'bigtap_feedback_settings';
+export const MILESTONE_INTERVAL = 10;
+
+export const DEFAULT_FEEDBACK_SETTINGS: FeedbackSettings = {
+  vibrationEnabled: true,
+  soundEnabled: false,
+  volume: 60
+};
+
+const VIBRATION_PATTERNS: Record<FeedbackKind, number[]> = {
+  tap: [12],
+  decrement: [6, 40, 6],
+  milestone: [30, 60, 30],
+  goal: [80, 60, 80, 60, 200]
+};
+
+// Notes as [frequency (Hz), start offset (s), duration (s)]
+const SOUND_NOTES: Record<FeedbackKind, [number, number, number][]> = {
+  tap: [[880, 0, 0.05]],
+  decrement: [[440, 0, 0.06]],
+  milestone: [[880, 0, 0.08], [1320, 0.09, 0.12]],
+  goal: [[523, 0, 0.12], [659, 0.12, 0.12], [784, 0.24, 0.12], [1047, 0.36, 0.3]]
+};
+
+export const loadFeedbackSettings = (): FeedbackSettings => {
+  try {
+    const saved = localStorage.getItem(FEEDBACK_SETTINGS_KEY);
+    if (!saved) return DEFAULT_FEEDBACK_SETTINGS;
+    const parsed = JSON.parse(saved);
+    return {
+      vibrationEnabled: typeof parsed.vibrationEnabled === 'boolean' ? parsed.vibrationEnabled : DEFAULT_FEEDBACK_SETTINGS.vibrationEnabled,
+      soundEnabled: typeof parsed.soundEnabled === 'boolean' ? parsed.soundEnabled : DEFAULT_FEEDBACK_SETTINGS.soundEnabled,
+      volume: typeof parsed.volume === 'number' ? Math.min(100, Math.max(0, parsed.volume)) : DEFAULT_FEEDBACK_SETTINGS.volume
+    };
+  } catch {
+    return DEFAULT_FEEDBACK_SETTINGS;
+  }
+};
+
+export const saveFeedbackSettings = (settings: FeedbackSettings) => {
+  localStorage.setItem(FEEDBACK_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isVibrationSupported = () => typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+
+// Picks the feedback for a change of the daily total: reaching the goal wins over
+// passing a multiple of MILESTONE_INTERVAL (steps larger than 1 can skip over it)
+export const getTapFeedbackKind = (before: number, after: number, goal?: number): FeedbackKind => {
+  if (after < before) return 'decrement';
+  if (goal && before < goal && after >= goal) return 'goal';
+  if (Math.floor(after / MILESTONE_INTERVAL) > Math.floor(before / MILESTONE_INTERVAL)) return 'milestone';
+  return 'tap';
+};
+
+let audioContext: AudioContext | null = null;
+
+// Created on first use, which is always inside a user gesture, so browsers allow playback
+const getAudioContext = () => {
+  if (!audioContext && typeof AudioContext !== 'undefined') {
+    audioContext = new AudioContext();
+  }
+  if (audioContext?.state === 'suspended') {
+    audioContext.resume().catch(() => undefined);
+  }
+  return audioContext;
+};
+
+const playSound = (kind: FeedbackKind, volume: number) => {
+  const ctx = getAudioContext();
+  if (!ctx || volume <= 0) return;
+
+  const peak = (volume / 100) * 0.4;
+  SOUND_NOTES[kind].forEach(([frequency, offset, duration]) => {
+    const start = ctx.currentTime + offset;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = kind === 'tap' || kind === 'decrement' ? 'square' : 'sine';
+    oscillator.frequency.setValueAtTime(frequency, start);
+    // Short attack and exponential decay give a click instead of a beep
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(peak, start + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + duration + 0.02);
+  });
+};
+
+export const playFeedback = (kind: FeedbackKind, settings: FeedbackSettings) => {
+  if (settings.vibrationEnabled && isVibrationSupported()) {
+    navigator.vibrate(VIBRATION_PATTERNS[kind]);
+  }
+  if (settings.soundEnabled) {
+    try {
+      playSound(kind, settings.volume);
+    } catch (e) {
+      console.warn('Sound feedback failed', e);
+    }
+  }
+};
@@ -0,0 +1,632 @@
+// --- Internationalisation ---
+//
+// Every UI string lives in a locale catalogue. zh-TW is the reference catalogue:
+// its keys define MessageKey, and other locales must provide the same keys.
+// To add a language, add a catalogue below and list it in LOCALES.
+// Placeholders use {name}; numbers passed as params are formatted for the locale.
+
+export type Locale = 'zh-TW' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+export const LOCALE_KEY = 'bigtap_locale';
+
+const zhTW = {
+  // Common
+  'common.ok': '確定',
+  'common.cancel': '取消',
+  'common.save': '儲存',
+  'common.close': '關閉',
+  'common.undo': '復原',
+  'common.redo': '重做',
+
+  // Dates and times
+  'date.today': '今天',
+  'time.hoursMinutes': '{hours} 小時 {minutes} 分',
+  'time.minutesSeconds': '{minutes} 分 {seconds} 秒',
+  'time.seconds': '{seconds} 秒',
+
+  // Header and main screen
+  'header.currentProject': '目前項目',
+  'header.shortcuts': '快捷鍵 (?)',
+  'header.dashboard': '看板模式',
+  'header.singleView': '單一項目模式',
+  'main.streak': '連續 {days} 天',
+  'main.longestStreak': '· 最長 {days} 天',
+  'main.notLoggedToday': '· 今天尚未記錄',
+  'main.decrement': '減少',
+  'main.stepTitle': '每次點擊的數量',
+  'main.step': '步進 ±{step}',
+  'main.goalTitle': '每日目標',
+  'main.goal': '目標',
+  'main.todayTaps': '今日點擊紀錄',
+  'main.goalReached': '今日目標達成！',
+  'main.valuePlaceholder': '輸入今日數值',
+  'main.record': '記錄',
+  'main.clearValue': '清除今日數值',
+  'main.lastValue': '上次 {value}（{date}）',
+  'dashboard.today': '今日 {count}',
+
+  // Notices
+  'notice.offlineReady': '已可離線使用',
+  'notice.upgraded': '資料已從 v{from} 升級至 v{to}',
+  'notice.upgradeFailedAt': 'v{from} → v{to}，於 v{failedAt} 失敗',
+  'notice.unreadable': '無法讀取',
+  'notice.upgradeFailed': '資料升級失敗（{detail}）。原始資料已保留，本次變更不會儲存。',
+  'notice.newDay': '新的一天開始了 ({date})，清單已更新。',
+  'notice.updateAvailable': '有新版本可用，更新後將重新載入。',
+  'notice.update': '更新',
+  'notice.reloadRequired': '另一個分頁已開啟新版本。請重新載入以繼續；重新載入前無法儲存任何變更。',
+  'notice.reload': '重新載入',
+  'notice.factoryResetDone': '已恢復出廠設定，所有資料已清除。',
+
+  // Undo history labels
+  'history.removeTap': '移除 {time} {delta}',
+  'history.reset': '歸零 {name}',
+  'history.edit': '編輯 {name}',
+  'history.archive': '封存 {name}',
+  'history.delete': '刪除 {name}',
+  'history.deleteLog': '刪除紀錄 {date}',
+  'history.purge': '永久刪除 {name}',
+  'history.restore': '還原 {name}',
+  'history.manualLog': '補填紀錄 {date}',
+
+  // Project menu
+  'menu.title': '今日項目',
+  'menu.empty': '今日尚無項目',
+  'menu.emptyHint': '請建立新項目',
+  'menu.count': '計數：{count}',
+  'menu.value': '今日：{value}',
+  'menu.typeCounter': '計次',
+  'menu.typeMeasure': '數值',
+  'menu.unitPlaceholder': '單位 (例如 kg)',
+  'menu.decimals': '小數位數',
+  'menu.decimalsOption': '{count} 位小數',
+  'menu.archive': '封存項目',
+  'menu.dayStart': '每日開始時間',
+  'menu.feedback': '震動與音效',
+  'menu.language': '語言',
+  'menu.exportBackup': '匯出備份',
+  'menu.importBackup': '匯入備份',
+  'menu.clearAll': '⚠️ 清除所有資料',
+  'menu.newProjectPlaceholder': '輸入新項目名稱...',
+  'menu.recentlyUsed': '最近使用',
+  'menu.allTags': '全部',
+  'menu.tagsPlaceholder': '標籤，以逗號分隔',
+
+  // Archive
+  'archive.title': '封存項目',
+  'archive.empty': '沒有封存的項目',
+  'archive.total': '總計：{total}',
+  'archive.latestValue': '最新：{value}',
+  'archive.lastLogged': '最後紀錄：{date}',
+  'archive.restore': '還原至今日',
+  'archive.rename': '重新命名',
+  'archive.purge': '永久刪除',
+
+  // Stats
+  'stats.title': '統計紀錄',
+  'stats.setRange': '設定統計期間',
+  'stats.exportCsv': '匯出 CSV',
+  'stats.manualLog': '補填紀錄',
+  'stats.overview': '統計總覽',
+  'stats.history': '詳細紀錄',
+  'stats.calendar': '月曆',
+  'stats.chart': '趨勢',
+  'stats.empty': '尚無統計數據',
+  'stats.emptyHint': '請確認日期範圍設定',
+  'stats.total': '總計：{value}',
+  'stats.averagePerDay': '日均：{value}',
+  'stats.averagePerWeek': '週均：{value}',
+  'stats.averagePerMonth': '月均：{value}',
+  'stats.averagePerYear': '年均：{value}',
+  'stats.streak': '連續：{value}',
+  'stats.longestStreak': '/ 最長 {days}',
+  'stats.goalSummary': '目標 {goal}，達成 {days} 天',
+  'stats.goalHitRate': '達標率：{value}',
+  'stats.weekStartsOn': '每週開始於',
+  'granularity.day': '日',
+  'granularity.week': '週',
+  'granularity.month': '月',
+  'granularity.year': '年',
+  'granularity.days': '天',
+  'granularity.weeks': '週',
+  'granularity.months': '個月',
+  'granularity.years': '年',
+  'period.week': '{start} – {end}',
+  'stats.range': '統計期間',
+  'stats.comparedWith': '比較期間：{range}',
+  'stats.new': '新',
+  'stats.previousTotal': '前期：{total}',
+  'stats.noEntries': '尚無紀錄',
+  'stats.byProject': '依項目',
+  'stats.byTag': '依標籤',
+  'stats.untagged': '未分類',
+  'stats.projectCount': '{count} 個項目',
+  'stats.measurements': '數值項目',
+  'stats.latest': '最新 · {date}',
+  'stats.min': '最低',
+  'stats.max': '最高',
+  'stats.average': '平均',
+  'stats.entries': '筆數',
+  'calendar.allProjects': '全部項目',
+  'calendar.less': '少',
+  'calendar.more': '多',
+  'chart.bar': '長條圖',
+  'chart.line': '折線圖',
+  'chart.movingAverage': '{days} 日平均',
+  'chart.averageValue': '平均 {value}',
+  'chart.allProjects': '全部合計',
+  'chart.hint': '點選圖表查看當日數值',
+
+  // Stats date range
+  'dateSettings.title': '統計期間',
+  'dateSettings.custom': '自訂',
+  'dateSettings.start': '開始日',
+  'dateSettings.end': '結束日',
+  'dateSettings.hint': '只統計此期間內的紀錄。總覽會與前一段相同天數的期間比較，顯示各項目的增減。',
+  'range.thisWeek': '本週',
+  'range.last7Days': '最近 7 天',
+  'range.thisMonth': '本月',
+  'range.lastMonth': '上個月',
+  'range.thisYear': '今年',
+  'range.allTime': '全部期間',
+
+  // CSV export
+  'csv.title': '匯出 CSV',
+  'csv.long': '逐筆明細',
+  'csv.longHint': '每列一筆：日期、項目、次數',
+  'csv.wide': '日期對照表',
+  'csv.wideHint': '每列一天，每欄一個項目',
+  'csv.range': '匯出範圍：{range} 的所有紀錄。',
+  'csv.date': '日期',
+  'csv.project': '項目',
+  'csv.count': '次數',
+  'csv.total': '合計',
+
+  // Manual log
+  'manualLog.title': '補填/修改紀錄',
+  'manualLog.project': '選擇項目',
+  'manualLog.recentOnly': '僅顯示最近建立的 10 個項目',
+  'manualLog.date': '日期',
+  'manualLog.count': '次數',
+  'manualLog.value': '數值',
+  'manualLog.countPlaceholder': '輸入數字',
+  'manualLog.submit': '儲存紀錄',
+  'manualLog.clear': '刪除此日數值',
+
+  // Delete / archive confirmation
+  'delete.archiveTitle': '封存今日項目',
+  'delete.projectTitle': '刪除項目',
+  'delete.purgeTitle': '永久刪除項目',
+  'delete.logTitle': '刪除紀錄',
+  'delete.archiveConfirm': '確定要將 "{name}" 從今日列表移除嗎？',
+  'delete.archiveKept': '過去的統計資料將會{kept}。',
+  'delete.archiveKeptEmphasis': '完整保留',
+  'delete.archiveRestoreHint': '可在「封存項目」中還原，或輸入相同名稱找回。',
+  'delete.projectConfirm': '確定要刪除 "{name}" 嗎？',
+  'delete.projectWarning': '⚠️ 此項目無歷史紀錄，將會被永久刪除。',
+  'delete.purgeConfirm': '確定要永久刪除 "{name}" 嗎？',
+  'delete.purgeWarning': '⚠️ 此項目的所有歷史紀錄將一併刪除，統計中也不會再出現。',
+  'delete.logConfirm': '確定要刪除此筆歷史紀錄嗎？',
+  'delete.logHint': '僅刪除當日的計數紀錄。',
+  'delete.confirmArchive': '確認移除',
+  'delete.confirmDelete': '確認刪除',
+
+  // Today's taps
+  'taps.title': '今日點擊 · {name}',
+  'taps.empty': '今日尚無點擊紀錄',
+  'taps.correction': '{delta} 修正',
+  'taps.remove': '移除此筆',
+
+  // Goal
+  'goal.title': '每日目標',
+  'goal.label': '目標次數',
+  'goal.placeholder': '未設定',
+  'goal.hint': '留空或輸入 0 即可取消目標。達成率會顯示在統計總覽中。',
+
+  // Step
+  'step.title': '設定步進',
+  'step.description': '"{name}" 每次點擊增加或減少的數量。',
+  'step.customPlaceholder': '自訂數量',
+
+  // Reset
+  'reset.title': '歸零確認',
+  'reset.confirm': '將 "{name}" 目前顯示的數字歸零？',
+  'reset.hint': '歷史統計紀錄不會被刪除，請放心。',
+  'reset.submit': '確認歸零',
+
+  // Day start
+  'dayStart.title': '每日開始時間',
+  'dayStart.hint': '在此時間之前的點擊會計入前一天，適合夜貓族或輪班工作。紀錄、每日清單、「今天」及統計都以此為準。',
+
+  // Feedback
+  'feedback.title': '震動與音效',
+  'feedback.vibration': '震動',
+  'feedback.vibrationHint': '每次點擊短震一下',
+  'feedback.vibrationUnsupported': '此裝置或瀏覽器不支援震動',
+  'feedback.sound': '音效',
+  'feedback.soundHint': '每次點擊播放點擊聲',
+  'feedback.volume': '音量',
+  'feedback.milestoneHint': '每累計 10 次及達成每日目標時，會有不同的震動與音效提示。',
+  'feedback.previewTap': '點擊',
+  'feedback.previewMilestone': '每 10 次',
+  'feedback.previewGoal': '達成目標',
+
+  // Keyboard shortcuts
+  'shortcuts.title': '快捷鍵',
+  'shortcuts.increment': '計數 (+步進)',
+  'shortcuts.decrement': '減少 (−步進)',
+  'shortcuts.undo': '復原',
+  'shortcuts.redo': '重做',
+  'shortcuts.selectNumber': '切換至第 N 個項目',
+  'shortcuts.selectAdjacent': '上一個 / 下一個項目',
+  'shortcuts.stats': '統計',
+  'shortcuts.menu': '項目選單',
+  'shortcuts.manualLog': '補填紀錄',
+  'shortcuts.help': '快捷鍵說明',
+  'shortcuts.close': '關閉最上層視窗',
+  'shortcuts.projectNumbers': '項目編號',
+  'shortcuts.hint': '輸入文字時快捷鍵不會作用；計數與切換只在主畫面有效。',
+
+  // Backup import
+  'import.title': '匯入備份',
+  'import.failed': '匯入失敗',
+  'import.projects': '項目數',
+  'import.totalTaps': '總計數',
+  'import.period': '紀錄期間',
+  'import.noEntries': '無紀錄',
+  'import.modeHint': '「取代」會以備份內容覆蓋目前所有資料；「合併」會保留目前資料，同一天的紀錄取較大值。',
+  'import.merge': '合併',
+  'import.replace': '取代',
+  'import.errorUnreadableFile': '無法讀取備份檔。',
+  'import.errorInvalidJson': '檔案不是有效的 JSON 格式。',
+  'import.errorUnrecognized': '備份檔內容無法辨識。',
+  'import.errorNotBackup': '這不是 BigTap 的備份檔。',
+  'import.errorVersion': '不支援的備份版本 ({version})，請更新 App 後再試。',
+  'import.errorNoProjects': '備份檔缺少項目資料。',
+  'import.errorInvalidProject': '第 {index} 個項目格式錯誤。',
+
+  // Factory reset
+  'factoryReset.title': '恢復出廠設定',
+  'factoryReset.confirm': '確定要清除所有資料並重置嗎？',
+  'factoryReset.warning': '⚠️ 此動作將永久刪除「所有」專案、計數紀錄及常用名稱，且無法復原。',
+  'factoryReset.submit': '確認重置'
+};
+
+export type MessageKey = keyof typeof zhTW;
+export type Catalogue = Record<MessageKey, string>;
+
+const en: Catalogue = {
+  'common.ok': 'OK',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.undo': 'Undo',
+  'common.redo': 'Redo',
+
+  'date.today': 'Today',
+  'time.hoursMinutes': '{hours}h {minutes}m',
+  'time.minutesSeconds': '{minutes}m {seconds}s',
+  'time.seconds': '{seconds}s',
+
+  'header.currentProject': 'Current Project',
+  'header.shortcuts': 'Keyboard shortcuts (?)',
+  'header.dashboard': 'Dashboard view',
+  'header.singleView': 'Single counter view',
+  'main.streak': '{days}-day streak',
+  'main.longestStreak': '· best {days} days',
+  'main.notLoggedToday': '· not logged today',
+  'main.decrement': 'Decrement',
+  'main.stepTitle': 'Amount per tap',
+  'main.step': 'Step ±{step}',
+  'main.goalTitle': 'Daily goal',
+  'main.goal': 'Goal',
+  'main.todayTaps': "Today's taps",
+  'main.goalReached': 'Daily goal reached!',
+  'main.valuePlaceholder': "Enter today's value",
+  'main.record': 'Record',
+  'main.clearValue': "Clear today's value",
+  'main.lastValue': 'Last {value} ({date})',
+  'dashboard.today': 'Today {count}',
+
+  'notice.offlineReady': 'Ready to work offline',
+  'notice.upgraded': 'Data upgraded from v{from} to v{to}',
+  'notice.upgradeFailedAt': 'v{from} → v{to}, failed at v{failedAt}',
+  'notice.unreadable': 'unreadable',
+  'notice.upgradeFailed': 'Data upgrade failed ({detail}). Your original data is kept; changes made in this session will not be saved.',
+  'notice.newDay': 'A new day has started ({date}). The list has been updated.',
+  'notice.updateAvailable': 'A new version is available. Updating reloads the app.',
+  'notice.update': 'Update',
+  'notice.reloadRequired': 'A newer version was opened in another tab. Reload to continue; changes cannot be saved until then.',
+  'notice.reload': 'Reload',
+  'notice.factoryResetDone': 'Factory reset complete. All data has been cleared.',
+
+  'history.removeTap': 'Remove {time} {delta}',
+  'history.reset': 'Reset {name}',
+  'history.edit': 'Edit {name}',
+  'history.archive': 'Archive {name}',
+  'history.delete': 'Delete {name}',
+  'history.deleteLog': 'Delete entry {date}',
+  'history.purge': 'Permanently delete {name}',
+  'history.restore': 'Restore {name}',
+  'history.manualLog': 'Log entry {date}',
+
+  'menu.title': "Today's Projects",
+  'menu.empty': 'No projects for today',
+  'menu.emptyHint': 'Create a new project',
+  'menu.count': 'Count: {count}',
+  'menu.value': 'Today: {value}',
+  'menu.typeCounter': 'Counter',
+  'menu.typeMeasure': 'Measurement',
+  'menu.unitPlaceholder': 'Unit (e.g. kg)',
+  'menu.decimals': 'Decimal places',
+  'menu.decimalsOption': '{count} dp',
+  'menu.archive': 'Archived Projects',
+  'menu.dayStart': 'Day Starts At',
+  'menu.feedback': 'Vibration & Sound',
+  'menu.language': 'Language',
+  'menu.exportBackup': 'Export Backup',
+  'menu.importBackup': 'Import Backup',
+  'menu.clearAll': '⚠️ Clear All Data',
+  'menu.newProjectPlaceholder': 'New project name...',
+  'menu.recentlyUsed': 'Recently Used',
+  'menu.allTags': 'All',
+  'menu.tagsPlaceholder': 'Tags, separated by commas',
+
+  'archive.title': 'Archived Projects',
+  'archive.empty': 'No archived projects',
+  'archive.total': 'Total: {total}',
+  'archive.latestValue': 'Latest: {value}',
+  'archive.lastLogged': 'Last entry: {date}',
+  'archive.restore': 'Restore to today',
+  'archive.rename': 'Rename',
+  'archive.purge': 'Delete permanently',
+
+  'stats.title': 'Statistics',
+  'stats.setRange': 'Set date range',
+  'stats.exportCsv': 'Export CSV',
+  'stats.manualLog': 'Add Entry',
+  'stats.overview': 'Overview',
+  'stats.history': 'History',
+  'stats.calendar': 'Calendar',
+  'stats.chart': 'Trend',
+  'stats.empty': 'No statistics yet',
+  'stats.emptyHint': 'Check the date range setting',
+  'stats.total': 'Total: {value}',
+  'stats.averagePerDay': 'Per day: {value}',
+  'stats.averagePerWeek': 'Per week: {value}',
+  'stats.averagePerMonth': 'Per month: {value}',
+  'stats.averagePerYear': 'Per year: {value}',
+  'stats.streak': 'Streak: {value}',
+  'stats.longestStreak': '/ best {days}',
+  'stats.goalSummary': 'Goal {goal}, reached on {days} days',
+  'stats.goalHitRate': 'Goal rate: {value}',
+  'stats.weekStartsOn': 'Week starts on',
+  'granularity.day': 'Day',
+  'granularity.week': 'Week',
+  'granularity.month': 'Month',
+  'granularity.year': 'Year',
+  'granularity.days': 'days',
+  'granularity.weeks': 'weeks',
+  'granularity.months': 'months',
+  'granularity.years': 'years',
+  'period.week': '{start} – {end}',
+  'stats.range': 'Date Range',
+  'stats.comparedWith': 'Compared with {range}',
+  'stats.new': 'New',
+  'stats.previousTotal': 'Previous period: {total}',
+  'stats.noEntries': 'No entries yet',
+  'stats.byProject': 'By project',
+  'stats.byTag': 'By tag',
+  'stats.untagged': 'Untagged',
+  'stats.projectCount': 'Projects: {count}',
+  'stats.measurements': 'Measurements',
+  'stats.latest': 'Latest · {date}',
+  'stats.min': 'Min',
+  'stats.max': 'Max',
+  'stats.average': 'Avg',
+  'stats.entries': 'Entries',
+  'calendar.allProjects': 'All projects',
+  'calendar.less': 'Less',
+  'calendar.more': 'More',
+  'chart.bar': 'Bars',
+  'chart.line': 'Lines',
+  'chart.movingAverage': '{days}-day average',
+  'chart.averageValue': 'avg {value}',
+  'chart.allProjects': 'All combined',
+  'chart.hint': 'Tap the chart to inspect a day',
+
+  'dateSettings.title': 'Date Range',
+  'dateSettings.custom': 'Custom',
+  'dateSettings.start': 'Start',
+  'dateSettings.end': 'End',
+  'dateSettings.hint': 'Only entries within this range are counted. The overview compares each project with the period of the same length right before it.',
+  'range.thisWeek': 'This week',
+  'range.last7Days': 'Last 7 days',
+  'range.thisMonth': 'This month',
+  'range.lastMonth': 'Last month',
+  'range.thisYear': 'This year',
+  'range.allTime': 'All time',
+
+  'csv.title': 'Export CSV',
+  'csv.long': 'Entry list (Long)',
+  'csv.longHint': 'One row per entry: date, project, count',
+  'csv.wide': 'Date table (Wide)',
+  'csv.wideHint': 'One row per day, one column per project',
+  'csv.range': 'Exports all entries in {range}.',
+  'csv.date': 'Date',
+  'csv.project': 'Project',
+  'csv.count': 'Count',
+  'csv.total': 'Total',
+
+  'manualLog.title': 'Add / Edit Entry',
+  'manualLog.project': 'Project',
+  'manualLog.recentOnly': 'Only the 10 most recently created projects are shown',
+  'manualLog.date': 'Date',
+  'manualLog.count': 'Count',
+  'manualLog.value': 'Value',
+  'manualLog.countPlaceholder': 'Enter a number',
+  'manualLog.submit': 'Save Entry',
+  'manualLog.clear': 'Delete Entry',
+
+  'delete.archiveTitle': "Archive Today's Project",
+  'delete.projectTitle': 'Delete Project',
+  'delete.purgeTitle': 'Delete Permanently',
+  'delete.logTitle': 'Delete Entry',
+  'delete.archiveConfirm': 'Remove "{name}" from today\'s list?',
+  'delete.archiveKept': 'Past statistics will be {kept}.',
+  'delete.archiveKeptEmphasis': 'kept in full',
+  'delete.archiveRestoreHint': 'Restore it from "Archived Projects", or enter the same name again.',
+  'delete.projectConfirm': 'Delete "{name}"?',
+  'delete.projectWarning': '⚠️ This project has no history and will be deleted permanently.',
+  'delete.purgeConfirm': 'Permanently delete "{name}"?',
+  'delete.purgeWarning': '⚠️ All of its history will be deleted and it will no longer appear in statistics.',
+  'delete.logConfirm': 'Delete this entry?',
+  'delete.logHint': "Only this day's count is deleted.",
+  'delete.confirmArchive': 'Remove',
+  'delete.confirmDelete': 'Delete',
+
+  'taps.title': "Today's Taps · {name}",
+  'taps.empty': 'No taps today',
+  'taps.correction': '{delta} correction',
+  'taps.remove': 'Remove this tap',
+
+  'goal.title': 'Daily Goal',
+  'goal.label': 'Target count',
+  'goal.placeholder': 'Not set',
+  'goal.hint': 'Leave empty or enter 0 to remove the goal. The goal rate is shown in the statistics overview.',
+
+  'step.title': 'Step',
+  'step.description': 'How much each tap on "{name}" adds or removes.',
+  'step.customPlaceholder': 'Custom amount',
+
+  'reset.title': 'Reset Counter',
+  'reset.confirm': 'Reset the number shown for "{name}" to zero?',
+  'reset.hint': 'Your history and statistics are not deleted.',
+  'reset.submit': 'Reset',
+
+  'dayStart.title': 'Day Starts At',
+  'dayStart.hint': 'Taps before this time count towards the previous day, for night owls and shift workers. Logging, the daily list, "Today" and statistics all follow this setting.',
+
+  'feedback.title': 'Vibration & Sound',
+  'feedback.vibration': 'Vibration',
+  'feedback.vibrationHint': 'A short buzz on every tap',
+  'feedback.vibrationUnsupported': 'Not supported on this device or browser',
+  'feedback.sound': 'Sound',
+  'feedback.soundHint': 'A click sound on every tap',
+  'feedback.volume': 'Volume',
+  'feedback.milestoneHint': 'Every 10th count and reaching the daily goal have their own vibration and sound.',
+  'feedback.previewTap': 'Tap',
+  'feedback.previewMilestone': 'Every 10',
+  'feedback.previewGoal': 'Goal',
+
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.increment': 'Count (+step)',
+  'shortcuts.decrement': 'Decrement (−step)',
+  'shortcuts.undo': 'Undo',
+  'shortcuts.redo': 'Redo',
+  'shortcuts.selectNumber': 'Switch to project N',
+  'shortcuts.selectAdjacent': 'Previous / next project',
+  'shortcuts.stats': 'Statistics',
+  'shortcuts.menu': 'Project menu',
+  'shortcuts.manualLog': 'Add entry',
+  'shortcuts.help': 'Shortcut help',
+  'shortcuts.close': 'Close the top window',
+  'shortcuts.projectNumbers': 'Project numbers',
+  'shortcuts.hint': 'Shortcuts are ignored while typing. Counting and switching only work on the main screen.',
+
+  'import.title': 'Import Backup',
+  'import.failed': 'Import Failed',
+  'import.projects': 'Projects',
+  'import.totalTaps': 'Total count',
+  'import.period': 'Period',
+  'import.noEntries': 'No entries',
+  'import.modeHint': '"Replace" overwrites all current data with the backup. "Merge" keeps current data and takes the larger count for the same day.',
+  'import.merge': 'Merge',
+  'import.replace': 'Replace',
+  'import.errorUnreadableFile': 'The backup file could not be read.',
+  'import.errorInvalidJson': 'The file is not valid JSON.',
+  'import.errorUnrecognized': 'The backup file content is not recognised.',
+  'import.errorNotBackup': 'This is not a BigTap backup file.',
+  'import.errorVersion': 'Unsupported backup version ({version}). Please update the app and try again.',
+  'import.errorNoProjects': 'The backup file has no project data.',
+  'import.errorInvalidProject': 'Project {index} has an invalid format.',
+
+  'factoryReset.title': 'Factory Reset',
+  'factoryReset.confirm': 'Clear all data and start over?',
+  'factoryReset.warning': '⚠️ This permanently deletes ALL projects, count history and recent names. It cannot be undone.',
+  'factoryReset.submit': 'Reset Everything'
+};
+
+export const LOCALES: { code: Locale, label: string, catalogue: Catalogue }[] = [
+  { code: 'zh-TW', label: '繁體中文', catalogue: zhTW },
+  { code: 'en', label: 'English', catalogue: en }
+];
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.code === value);
+
+// Saved choice first, then the browser languages (any Chinese variant uses zh-TW)
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage unavailable: fall through to the browser language
+  }
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const language of languages) {
+    if (language.toLowerCase().startsWith('zh')) return 'zh-TW';
+    if (language.toLowerCase().startsWith('en')) return 'en';
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+// Date keys (YYYY-MM-DD) are local calendar days; `new Date(key)` would read them as UTC
+const parseDateKey = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatShortDate = (date: string, locale: Locale) => new Intl.DateTimeFormat(locale, {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+}).format(parseDateKey(date));
+
+export const formatLongDate = (date: string, locale: Locale) => new Intl.DateTimeFormat(locale, {
+  weekday: 'short',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+}).format(parseDateKey(date));
+
+export const formatMonthYear = (year: number, month: number, locale: Locale) =>
+  new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'long' }).format(new Date(year, month - 1, 1));
+
+export const formatYear = (year: number, locale: Locale) =>
+  new Intl.DateTimeFormat(locale, { year: 'numeric' }).format(new Date(year, 0, 1));
+
+// Sunday first, matching Date#getDay()
+export const getWeekdayLabels = (locale: Locale, style: 'narrow' | 'long' = 'narrow') => {
+  const format = new Intl.DateTimeFormat(locale, { weekday: style });
+  return Array.from({ length: 7 }, (_, i) => format.format(new Date(2024, 0, 7 + i))); // 2024-01-07 was a Sunday
+};
+
+export const createTranslator = (locale: Locale): Translate => {
+  const catalogue = LOCALES.find(l => l.code === locale)?.catalogue ?? zhTW;
+  return (key, params) => {
+    const template = catalogue[key] ?? zhTW[key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      if (!(name in params)) return match;
+      const value = params[name];
+      return typeof value === 'number' ? formatNumber(value, locale) : value;
+    });
+  };
+};
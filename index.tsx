@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import '@fontsource/inter/400.css';
+import '@fontsource/inter/700.css';
+import '@fontsource/jetbrains-mono/700.css';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
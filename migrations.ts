@@ -0,0 +1,142 @@
+import type { Project } from './types';
+
+// --- Schema Versions ---
+//
+// 0: Single number from the original one-counter app ("bigtap_counter_value")
+// 1: Project list, `lastActiveDate` may be missing ("bigtap_data")
+// 2: Every project has `lastActiveDate` ("bigtap_data_v2")
+// 3: Every project has an `events` tap journal
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export interface MigrationContext {
+  today: string; // "YYYY-MM-DD"
+  now: number;
+  createId: () => string;
+}
+
+export interface MigrationStep {
+  from: number;
+  to: number;
+  description: string;
+  up: (data: unknown, context: MigrationContext) => unknown;
+}
+
+export interface MigrationResult {
+  projects: Project[];
+  fromVersion: number;
+  toVersion: number;
+}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly failedAt: number
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+type RawProject = Record<string, unknown>;
+
+const expectProjectList = (data: unknown): RawProject[] => {
+  if (!Array.isArray(data) || !data.every(p => p && typeof p === 'object')) {
+    throw new Error('Expected a list of projects');
+  }
+  return data as RawProject[];
+};
+
+const expectLogs = (p: RawProject) => {
+  if (!p.logs || typeof p.logs !== 'object') {
+    throw new Error(`Project ${String(p.id)} has no logs`);
+  }
+  return p.logs as Record<string, number>;
+};
+
+// --- Steps ---
+
+export const MIGRATIONS: MigrationStep[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Convert the single counter into a default project',
+    up: (data, { today, now, createId }) => {
+      const val = typeof data === 'number' ? data : parseInt(String(data), 10) || 0;
+      return [{
+        id: createId(),
+        name: '默認計數 (Default)',
+        count: val,
+        logs: val > 0 ? { [today]: val } : {},
+        createdAt: now,
+        lastActiveDate: today
+      }];
+    }
+  },
+  {
+    from: 1,
+    to: 2,
+    description: 'Infer missing lastActiveDate from the latest log',
+    up: (data, { today }) => expectProjectList(data).map(p => {
+      if (p.lastActiveDate) return p;
+      const logDates = Object.keys(expectLogs(p)).sort();
+      return {
+        ...p,
+        lastActiveDate: logDates.length > 0 ? logDates[logDates.length - 1] : today
+      };
+    })
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'Add an empty tap journal (older days keep totals only)',
+    up: data => expectProjectList(data).map(p => {
+      expectLogs(p);
+      return Array.isArray(p.events) ? p : { ...p, events: [] };
+    })
+  }
+];
+
+// --- Runner ---
+
+// Runs every step from `fromVersion` up to the current version on a copy of `data`.
+// Throws MigrationError without touching the input if any step fails.
+// Data already at the current version is returned as-is (no copy), so unchanged
+// projects keep their identity for incremental saves.
+export const runMigrations = (data: unknown, fromVersion: number, context: MigrationContext): MigrationResult => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Data version ${fromVersion} is newer than this app (${CURRENT_SCHEMA_VERSION})`,
+      fromVersion,
+      fromVersion
+    );
+  }
+
+  let current: unknown = fromVersion === CURRENT_SCHEMA_VERSION ? data : structuredClone(data);
+  let version = fromVersion;
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) {
+      throw new MigrationError(`No migration from version ${version}`, fromVersion, version);
+    }
+    try {
+      current = step.up(current, context);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new MigrationError(`Migration ${step.from} → ${step.to} failed: ${reason}`, fromVersion, version);
+    }
+    version = step.to;
+  }
+
+  if (!Array.isArray(current)) {
+    throw new MigrationError('Stored data is not a list of projects', fromVersion, version);
+  }
+
+  return {
+    projects: current as Project[],
+    fromVersion,
+    toVersion: version
+  };
+};
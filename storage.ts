@@ -0,0 +1,305 @@
+import type { DailyLog, Project, TapEvent } from './types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+
+// --- Storage Adapter ---
+
+// Data as found in storage, before migrations run
+export interface StoredData {
+  schemaVersion: number;
+  data: unknown;
+}
+
+export interface StorageAdapter {
+  readonly kind: 'indexeddb' | 'localstorage';
+  // Resolves to null when nothing has been stored yet
+  loadData(): Promise<StoredData | null>;
+  // Writes are queued so they are applied in call order; always stored as CURRENT_SCHEMA_VERSION
+  saveProjects(projects: Project[]): Promise<void>;
+  clear(): Promise<void>;
+  // Runs `listener` once another tab has taken the storage over for a newer version; later saves fail
+  onClosed(listener: () => void): void;
+}
+
+export const STORAGE_KEY = 'bigtap_data_v2';
+export const LEGACY_STORAGE_KEY = 'bigtap_data'; // Fallback for data migration
+export const SIMPLE_COUNTER_KEY = 'bigtap_counter_value'; // Very old single-counter version
+export const SCHEMA_VERSION_KEY = 'bigtap_schema_version';
+
+// --- localStorage Backend ---
+
+// Reads whichever localStorage format is present, newest first
+const readLocalStorageData = (): StoredData | null => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    // Data written before versioning existed lives under the v2 key
+    const schemaVersion = parseInt(localStorage.getItem(SCHEMA_VERSION_KEY) || '', 10) || 2;
+    return { schemaVersion, data: JSON.parse(saved) };
+  }
+
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy) return { schemaVersion: 1, data: JSON.parse(legacy) };
+
+  const simpleCount = localStorage.getItem(SIMPLE_COUNTER_KEY);
+  if (simpleCount) return { schemaVersion: 0, data: parseInt(simpleCount, 10) || 0 };
+
+  return null;
+};
+
+const removeLocalStorageData = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  localStorage.removeItem(SIMPLE_COUNTER_KEY);
+  localStorage.removeItem(SCHEMA_VERSION_KEY);
+};
+
+// Stores the whole list as one JSON string. Used when IndexedDB is unavailable.
+class LocalStorageAdapter implements StorageAdapter {
+  readonly kind = 'localstorage' as const;
+
+  async loadData(): Promise<StoredData | null> {
+    return readLocalStorageData();
+  }
+
+  async saveProjects(projects: Project[]): Promise<void> {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
+    localStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  }
+
+  async clear(): Promise<void> {
+    removeLocalStorageData();
+  }
+
+  // localStorage has no versioned connection to lose
+  onClosed(): void {}
+}
+
+// --- IndexedDB Backend ---
+
+const DB_NAME = 'bigtap';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const LOGS_STORE = 'logs';
+const EVENTS_STORE = 'events';
+const META_STORE = 'meta';
+const ALL_STORES = [PROJECTS_STORE, LOGS_STORE, EVENTS_STORE, META_STORE];
+
+// Databases created before the meta store existed already held version 3 data
+const UNVERSIONED_DB_SCHEMA = 3;
+
+type ProjectRecord = Omit<Project, 'logs' | 'events'>;
+
+interface LogRecord {
+  projectId: string;
+  date: string;
+  count: number;
+}
+
+interface EventRecord extends TapEvent {
+  projectId: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = (e) => {
+    const db = request.result;
+    if (e.oldVersion < 1) {
+      db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      db.createObjectStore(LOGS_STORE, { keyPath: ['projectId', 'date'] });
+      db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+    }
+    if (e.oldVersion < 2) {
+      db.createObjectStore(META_STORE);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  // Another tab still holds an older version open. Falling back to localStorage here would start
+  // from an empty dataset (it was cleared after the move), so wait until that tab lets go.
+  request.onblocked = () => console.warn('IndexedDB upgrade waiting for other tabs to close the database');
+});
+
+const toProjectRecord = ({ logs: _logs, events: _events, ...record }: Project): ProjectRecord => record;
+
+// Stores project metadata, daily logs and tap events as separate records.
+// Each save only writes what changed since the previous save.
+class IndexedDBAdapter implements StorageAdapter {
+  readonly kind = 'indexeddb' as const;
+
+  private lastSaved = new Map<string, Project>();
+  private storedVersion: number | null = null;
+  private importedFromLocalStorage = false;
+  private queue: Promise<void> = Promise.resolve();
+  private loading: Promise<StoredData | null> | null = null;
+  private closed = false;
+  private closedListeners = new Set<() => void>();
+
+  constructor(private db: IDBDatabase) {
+    // A newer version opened in another tab can only upgrade once this connection lets go
+    db.onversionchange = () => {
+      db.close();
+      this.closed = true;
+      this.closedListeners.forEach(listener => listener());
+    };
+  }
+
+  onClosed(listener: () => void): void {
+    if (this.closed) {
+      listener();
+    } else {
+      this.closedListeners.add(listener);
+    }
+  }
+
+  // Shared so concurrent callers read the same snapshot
+  loadData(): Promise<StoredData | null> {
+    if (!this.loading) this.loading = this.readAll();
+    return this.loading;
+  }
+
+  private async readAll(): Promise<StoredData | null> {
+    const tx = this.db.transaction(ALL_STORES, 'readonly');
+    const [records, logRecords, eventRecords, schemaVersion] = await Promise.all([
+      requestToPromise(tx.objectStore(PROJECTS_STORE).getAll() as IDBRequest<ProjectRecord[]>),
+      requestToPromise(tx.objectStore(LOGS_STORE).getAll() as IDBRequest<LogRecord[]>),
+      requestToPromise(tx.objectStore(EVENTS_STORE).getAll() as IDBRequest<EventRecord[]>),
+      requestToPromise(tx.objectStore(META_STORE).get('schemaVersion') as IDBRequest<number | undefined>)
+    ]);
+
+    if (records.length === 0) {
+      // First run with IndexedDB: hand over localStorage data. The old keys are
+      // removed only after the (migrated) data has been written here successfully.
+      const legacy = readLocalStorageData();
+      this.importedFromLocalStorage = legacy !== null;
+      return legacy;
+    }
+
+    const logsById: Record<string, DailyLog> = {};
+    logRecords.forEach(({ projectId, date, count }) => {
+      if (!logsById[projectId]) logsById[projectId] = {};
+      logsById[projectId][date] = count;
+    });
+
+    const eventsById: Record<string, TapEvent[]> = {};
+    eventRecords.forEach(({ projectId, ...event }) => {
+      if (!eventsById[projectId]) eventsById[projectId] = [];
+      eventsById[projectId].push(event);
+    });
+
+    const projects = records.map(record => ({
+      ...record,
+      logs: logsById[record.id] || {},
+      events: (eventsById[record.id] || []).sort((a, b) => a.at - b.at)
+    }));
+    this.lastSaved = new Map(projects.map(p => [p.id, p]));
+    this.storedVersion = schemaVersion ?? UNVERSIONED_DB_SCHEMA;
+    return { schemaVersion: this.storedVersion, data: projects };
+  }
+
+  saveProjects(projects: Project[]): Promise<void> {
+    const run = this.queue.then(() => this.writeChanges(projects));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  clear(): Promise<void> {
+    const run = this.queue.then(async () => {
+      const tx = this.db.transaction(ALL_STORES, 'readwrite');
+      ALL_STORES.forEach(name => tx.objectStore(name).clear());
+      await transactionDone(tx);
+      removeLocalStorageData();
+      this.lastSaved = new Map();
+      this.storedVersion = null;
+      this.importedFromLocalStorage = false;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async writeChanges(projects: Project[]) {
+    const tx = this.db.transaction(ALL_STORES, 'readwrite');
+    const projectStore = tx.objectStore(PROJECTS_STORE);
+    const logStore = tx.objectStore(LOGS_STORE);
+    const eventStore = tx.objectStore(EVENTS_STORE);
+    const nextIds = new Set(projects.map(p => p.id));
+
+    projects.forEach(p => {
+      const prev = this.lastSaved.get(p.id);
+      // State updates are immutable, so an unchanged reference means nothing to write
+      if (prev === p) return;
+
+      projectStore.put(toProjectRecord(p));
+
+      if (prev?.logs !== p.logs) {
+        Object.entries(p.logs).forEach(([date, count]) => {
+          if (prev?.logs[date] !== count) logStore.put({ projectId: p.id, date, count });
+        });
+        Object.keys(prev?.logs || {}).forEach(date => {
+          if (!(date in p.logs)) logStore.delete([p.id, date]);
+        });
+      }
+
+      if (prev?.events !== p.events) {
+        const prevIds = new Set((prev?.events || []).map(e => e.id));
+        const currentIds = new Set(p.events.map(e => e.id));
+        p.events.forEach(e => {
+          if (!prevIds.has(e.id)) eventStore.put({ ...e, projectId: p.id });
+        });
+        prevIds.forEach(id => {
+          if (!currentIds.has(id)) eventStore.delete(id);
+        });
+      }
+    });
+
+    this.lastSaved.forEach((prev, id) => {
+      if (nextIds.has(id)) return;
+      projectStore.delete(id);
+      Object.keys(prev.logs).forEach(date => logStore.delete([id, date]));
+      prev.events.forEach(e => eventStore.delete(e.id));
+    });
+
+    if (this.storedVersion !== CURRENT_SCHEMA_VERSION) {
+      tx.objectStore(META_STORE).put(CURRENT_SCHEMA_VERSION, 'schemaVersion');
+    }
+
+    await transactionDone(tx);
+    this.lastSaved = new Map(projects.map(p => [p.id, p]));
+    this.storedVersion = CURRENT_SCHEMA_VERSION;
+
+    if (this.importedFromLocalStorage) {
+      removeLocalStorageData();
+      this.importedFromLocalStorage = false;
+    }
+  }
+}
+
+// --- Factory ---
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+// Prefers IndexedDB and falls back to localStorage (e.g. private browsing or old browsers).
+// The adapter is shared so repeated calls (such as StrictMode double mounts) reuse one connection.
+export const getStorageAdapter = (): Promise<StorageAdapter> => {
+  if (!adapterPromise) {
+    adapterPromise = (async () => {
+      if (typeof indexedDB === 'undefined') return new LocalStorageAdapter();
+      try {
+        return new IndexedDBAdapter(await openDatabase());
+      } catch (e) {
+        console.warn('IndexedDB unavailable, using localStorage', e);
+        return new LocalStorageAdapter();
+      }
+    })();
+  }
+  return adapterPromise;
+};
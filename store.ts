@@ -0,0 +1,864 @@
+import type { Project, TapEvent } from './types';
+
+// --- Headless Counter Store ---
+//
+// All counting rules live here so they can be scripted, embedded in other tools
+// and tested without rendering the UI. The React app is just one subscriber.
+
+export const ARCHIVED = 'ARCHIVED'; // lastActiveDate marker for projects removed from the daily list
+export const DEFAULT_PROJECT_NAME = '默認計數 (Default)';
+const EMPTY_LIST_PROJECT_NAME = '新項目 (New Item)';
+
+// --- Helper Functions ---
+
+export const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Hour (0-23) at which a new day starts; earlier taps still count towards the previous day
+let dayStartHour = 0;
+
+export const getDayStartHour = () => dayStartHour;
+
+export const configureDayStartHour = (hour: number) => {
+  dayStartHour = Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 0;
+};
+
+export const getTodayString = () => {
+  const d = new Date(Date.now() - dayStartHour*60*60*1000);
+  const offset = d.getTimezoneOffset();
+  const localDate = new Date(d.getTime() - (offset*60*1000));
+  return localDate.toISOString().split('T')[0];
+};
+
+// Adds days to a "YYYY-MM-DD" string (computed in UTC so DST never skips a day)
+export const shiftDate = (dateStr: string, days: number) => {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+// --- Periods ---
+
+export type Granularity = 'day' | 'week' | 'month' | 'year';
+
+export const DEFAULT_WEEK_STARTS_ON = 1; // Monday
+
+// First day of the period containing dateStr (weekStartsOn: 0 = Sunday ... 6 = Saturday)
+export const getPeriodStart = (dateStr: string, granularity: Granularity, weekStartsOn = DEFAULT_WEEK_STARTS_ON) => {
+  switch (granularity) {
+    case 'day':
+      return dateStr;
+    case 'week': {
+      const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+      return shiftDate(dateStr, -((weekday - weekStartsOn + 7) % 7));
+    }
+    case 'month':
+      return `${dateStr.slice(0, 7)}-01`;
+    case 'year':
+      return `${dateStr.slice(0, 4)}-01-01`;
+  }
+};
+
+// Last day of the period starting at periodStart
+export const getPeriodEnd = (periodStart: string, granularity: Granularity) => {
+  switch (granularity) {
+    case 'day':
+      return periodStart;
+    case 'week':
+      return shiftDate(periodStart, 6);
+    case 'month': {
+      const [year, month] = periodStart.split('-').map(Number);
+      const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      return `${periodStart.slice(0, 7)}-${String(lastDay).padStart(2, '0')}`;
+    }
+    case 'year':
+      return `${periodStart.slice(0, 4)}-12-31`;
+  }
+};
+
+// --- Date Ranges ---
+
+export type RangePreset = 'thisWeek' | 'last7Days' | 'thisMonth' | 'lastMonth' | 'thisYear' | 'allTime';
+
+export interface DateRange {
+  start: string; // Inclusive; '' means from the first log
+  end: string; // Inclusive
+}
+
+export const isInRange = (date: string, range: DateRange) => date >= range.start && date <= range.end;
+
+export const getPresetRange = (preset: RangePreset, today: string, weekStartsOn = DEFAULT_WEEK_STARTS_ON): DateRange => {
+  switch (preset) {
+    case 'thisWeek':
+      return { start: getPeriodStart(today, 'week', weekStartsOn), end: today };
+    case 'last7Days':
+      return { start: shiftDate(today, -6), end: today };
+    case 'thisMonth':
+      return { start: getPeriodStart(today, 'month'), end: today };
+    case 'lastMonth': {
+      const end = shiftDate(getPeriodStart(today, 'month'), -1);
+      return { start: getPeriodStart(end, 'month'), end };
+    }
+    case 'thisYear':
+      return { start: getPeriodStart(today, 'year'), end: today };
+    case 'allTime':
+      return { start: '', end: today };
+  }
+};
+
+// The same number of days right before the range; null for an open start
+export const getPreviousRange = (range: DateRange): DateRange | null => {
+  if (!range.start) return null;
+  const days = Math.round(
+    (new Date(`${range.end}T00:00:00Z`).getTime() - new Date(`${range.start}T00:00:00Z`).getTime()) / 86400000
+  ) + 1;
+  if (days <= 0) return null;
+  return { start: shiftDate(range.start, -days), end: shiftDate(range.start, -1) };
+};
+
+export const getStep = (p?: Project) => (p?.step && p.step > 0 ? p.step : 1);
+
+// Drops the tap journal of a date whose total was overwritten or deleted
+export const withoutEventsOn = (events: TapEvent[], date: string) => events.filter(e => e.date !== date);
+
+const createTapEvent = (date: string, delta: number, at: number): TapEvent => ({
+  id: generateId(),
+  at,
+  date,
+  delta
+});
+
+export const createProjectRecord = (name: string, today: string, now: number): Project => ({
+  id: generateId(),
+  name,
+  count: 0,
+  logs: {},
+  events: [],
+  createdAt: now,
+  lastActiveDate: today
+});
+
+// Trimmed, without empties or case-insensitive duplicates (the first spelling wins)
+export const normalizeTags = (tags: string[]) => {
+  const seen = new Set<string>();
+  return tags.map(t => t.trim()).filter(t => {
+    const key = t.toLowerCase();
+    if (!t || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const sameTags = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((t, i) => t === b[i]);
+
+export const MAX_DECIMALS = 3;
+
+export const isMeasure = (p: Project) => p.type === 'measure';
+
+export const getDecimals = (p: Pick<Project, 'decimals'>) =>
+  Number.isInteger(p.decimals) && p.decimals! >= 0 ? Math.min(p.decimals!, MAX_DECIMALS) : 0;
+
+// Rounds away float noise (e.g. 72.30000000000001) to the project's precision; -0 becomes 0
+export const roundValue = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor || 0;
+};
+
+export interface MeasureFormat {
+  unit: string;
+  decimals: number;
+}
+
+// Applies a unit and precision; an empty unit is dropped
+const withMeasureFormat = (p: Project, { unit, decimals }: MeasureFormat): Project => {
+  const { unit: _unit, ...rest } = p;
+  const trimmedUnit = unit.trim();
+  return {
+    ...rest,
+    type: 'measure',
+    decimals: getDecimals({ decimals }),
+    ...(trimmedUnit ? { unit: trimmedUnit } : {})
+  };
+};
+
+// Whether the day has an entry: a positive count, or for measurements any recorded value (0 and below included)
+export const hasLogOn = (p: Project, date: string) =>
+  isMeasure(p) ? p.logs[date] !== undefined : (p.logs[date] || 0) > 0;
+
+// True when the project has entries on any day other than today
+export const hasHistoryBefore = (p: Project, today: string) =>
+  Object.keys(p.logs).some(date => date !== today && hasLogOn(p, date));
+
+// --- State ---
+
+export interface CounterState {
+  projects: Project[];
+  activeProjectId: string;
+}
+
+export const createInitialState = (today: string, now: number): CounterState => {
+  const project = createProjectRecord(DEFAULT_PROJECT_NAME, today, now);
+  return { projects: [project], activeProjectId: project.id };
+};
+
+// Keeps at least one project and a valid selection
+const ensureActiveProject = (state: CounterState, today: string, now: number): CounterState => {
+  if (state.projects.some(p => p.id === state.activeProjectId)) return state;
+  const next = state.projects.find(p => p.lastActiveDate === today) || state.projects[0];
+  if (next) return { ...state, activeProjectId: next.id };
+  return createInitialState(today, now);
+};
+
+// Brings a list dated after today back to today. A later day-start hour can turn "today" back
+// to the previous day; values booked to the next day were made before the new boundary, so they
+// are re-booked to today (a measurement's later value replaces today's).
+export const rebookFutureDays = (projects: Project[], today: string): Project[] => {
+  const isFuture = (p: Project) => p.lastActiveDate !== ARCHIVED && p.lastActiveDate > today;
+  if (!projects.some(isFuture)) return projects;
+
+  const tomorrow = shiftDate(today, 1);
+  return projects.map(p => {
+    if (!isFuture(p)) return p;
+    if (p.logs[tomorrow] === undefined) return { ...p, lastActiveDate: today };
+
+    const { [tomorrow]: moved, ...logs } = p.logs;
+    logs[today] = isMeasure(p) ? moved : (logs[today] || 0) + moved;
+    return {
+      ...p,
+      lastActiveDate: today,
+      logs,
+      events: p.events.map(e => (e.date === tomorrow ? { ...e, date: today } : e)),
+      count: isMeasure(p) ? moved : p.count
+    };
+  });
+};
+
+// Smart carryover: when nothing is listed for today, bring the most recent day's list forward
+export const applyCarryover = (listed: Project[], today: string): Project[] => {
+  const projects = rebookFutureDays(listed, today);
+  const hasProjectsForToday = projects.some(p => p.lastActiveDate === today);
+  if (hasProjectsForToday) return projects;
+
+  const allDates = new Set<string>();
+  projects.forEach(p => Object.keys(p.logs).forEach(d => allDates.add(d)));
+  projects.forEach(p => allDates.add(p.lastActiveDate));
+
+  const sortedDates = Array.from(allDates).sort().reverse();
+  const latestDate = sortedDates.find(d => d < today);
+  if (!latestDate) return projects;
+
+  return projects.map(p => {
+    if (p.lastActiveDate === latestDate || hasLogOn(p, latestDate)) {
+      return { ...p, count: 0, lastActiveDate: today };
+    }
+    return p;
+  });
+};
+
+// --- Commands ---
+
+export type CounterCommand =
+  | { type: 'select', projectId: string }
+  | { type: 'increment', projectId: string, amount?: number }
+  | { type: 'decrement', projectId: string }
+  | { type: 'reset', projectId: string }
+  | { type: 'createProject', name: string, tags?: string[], measure?: MeasureFormat }
+  | { type: 'rename', projectId: string, name: string }
+  | { type: 'archive', projectId: string }
+  | { type: 'restore', projectId: string }
+  | { type: 'purge', projectId: string }
+  | { type: 'setLog', projectId: string, date: string, count: number }
+  | { type: 'deleteLog', projectId: string, date: string }
+  | { type: 'removeTapEvent', projectId: string, eventId: string }
+  | { type: 'setStep', projectId: string, step: number }
+  | { type: 'setGoal', projectId: string, goal: number | null }
+  | { type: 'setTags', projectId: string, tags: string[] }
+  | { type: 'setMeasureFormat', projectId: string, format: MeasureFormat };
+
+export interface CommandContext {
+  today: string;
+  now: number;
+}
+
+const updateProject = (state: CounterState, id: string, update: (p: Project) => Project): CounterState => ({
+  ...state,
+  projects: state.projects.map(p => (p.id === id ? update(p) : p))
+});
+
+// Pure reducer. Returns the same state object when the command changes nothing.
+export const applyCommand = (state: CounterState, command: CounterCommand, { today, now }: CommandContext): CounterState => {
+  if (command.type === 'createProject') {
+    const trimmedName = command.name.trim();
+    if (!trimmedName) return state;
+    const tags = normalizeTags(command.tags ?? []);
+
+    // Name-based reactivation: reuse an archived or earlier-day project with the same name
+    // and type (a counter is never brought back when a measurement is asked for, or vice versa).
+    // Its tags are kept, and any given tags are added to them.
+    const archivedProject = state.projects.find(p =>
+      p.name.trim().toLowerCase() === trimmedName.toLowerCase() &&
+      p.lastActiveDate !== today &&
+      isMeasure(p) === !!command.measure
+    );
+    if (archivedProject) {
+      return {
+        ...updateProject(state, archivedProject.id, p => {
+          const mergedTags = normalizeTags([...(p.tags ?? []), ...tags]);
+          return {
+            ...p,
+            lastActiveDate: today,
+            count: 0,
+            ...(mergedTags.length > 0 && !sameTags(p.tags, mergedTags) ? { tags: mergedTags } : {})
+          };
+        }),
+        activeProjectId: archivedProject.id
+      };
+    }
+
+    let newProject = createProjectRecord(trimmedName, today, now);
+    if (tags.length > 0) newProject.tags = tags;
+    if (command.measure) newProject = withMeasureFormat(newProject, command.measure);
+    return { projects: [...state.projects, newProject], activeProjectId: newProject.id };
+  }
+
+  const project = state.projects.find(p => p.id === command.projectId);
+  if (!project) return state;
+  const id = project.id;
+
+  switch (command.type) {
+    case 'select':
+      return state.activeProjectId === id ? state : { ...state, activeProjectId: id };
+
+    // Measurements are entered with setLog instead of tapped
+    case 'increment': {
+      const step = command.amount ?? getStep(project);
+      if (!(step > 0) || isMeasure(project)) return state;
+      return updateProject(state, id, p => ({
+        ...p,
+        count: p.count + step,
+        lastActiveDate: today,
+        logs: { ...p.logs, [today]: (p.logs[today] || 0) + step },
+        events: [...p.events, createTapEvent(today, step, now)]
+      }));
+    }
+
+    // Removes one step from today's log, never going below zero
+    case 'decrement': {
+      const amount = Math.min(getStep(project), project.logs[today] || 0);
+      if (amount <= 0 || isMeasure(project)) return state;
+      return updateProject(state, id, p => {
+        const newLogs = { ...p.logs };
+        const nextDaily = (newLogs[today] || 0) - amount;
+        if (nextDaily <= 0) {
+          delete newLogs[today];
+        } else {
+          newLogs[today] = nextDaily;
+        }
+        return {
+          ...p,
+          count: Math.max(0, p.count - amount),
+          lastActiveDate: today,
+          logs: newLogs,
+          events: nextDaily <= 0 ? withoutEventsOn(p.events, today) : [...p.events, createTapEvent(today, -amount, now)]
+        };
+      });
+    }
+
+    case 'reset':
+      return updateProject(state, id, p => ({ ...p, count: 0, lastActiveDate: today }));
+
+    case 'rename': {
+      const name = command.name.trim();
+      if (!name) return state;
+      // Renaming an archived project keeps it in the archive
+      return updateProject(state, id, p => ({
+        ...p,
+        name,
+        lastActiveDate: p.lastActiveDate === ARCHIVED ? ARCHIVED : today
+      }));
+    }
+
+    // Projects with history are archived (today's log is dropped); others are deleted outright
+    case 'archive': {
+      if (hasHistoryBefore(project, today)) {
+        const next = updateProject(state, id, p => {
+          const newLogs = { ...p.logs };
+          delete newLogs[today];
+          return {
+            ...p,
+            count: 0,
+            lastActiveDate: ARCHIVED,
+            logs: newLogs,
+            events: withoutEventsOn(p.events, today)
+          };
+        });
+        if (state.activeProjectId !== id) return next;
+
+        const remainingVisible = state.projects.filter(p => p.id !== id && p.lastActiveDate === today);
+        if (remainingVisible.length > 0) {
+          return { ...next, activeProjectId: remainingVisible[0].id };
+        }
+        const newDefault = createProjectRecord(DEFAULT_PROJECT_NAME, today, now);
+        return { projects: [...next.projects, newDefault], activeProjectId: newDefault.id };
+      }
+
+      const remaining = state.projects.filter(p => p.id !== id);
+      if (remaining.length === 0) {
+        const newDefault = createProjectRecord(EMPTY_LIST_PROJECT_NAME, today, now);
+        return { projects: [newDefault], activeProjectId: newDefault.id };
+      }
+      if (state.activeProjectId !== id) return { ...state, projects: remaining };
+      const nextVisible = remaining.find(p => p.lastActiveDate === today) || remaining[0];
+      return { projects: remaining, activeProjectId: nextVisible.id };
+    }
+
+    case 'restore':
+      return {
+        ...updateProject(state, id, p => ({ ...p, count: 0, lastActiveDate: today })),
+        activeProjectId: id
+      };
+
+    case 'purge':
+      return ensureActiveProject({ ...state, projects: state.projects.filter(p => p.id !== id) }, today, now);
+
+    // Manual log: a count of 0 removes the day; today's value also becomes the visual count.
+    // This is also how measurements are recorded, rounded to the project's precision. Any
+    // value is a reading for them (0 and below included); deleteLog clears the day instead.
+    case 'setLog': {
+      const { date } = command;
+      const measure = isMeasure(project);
+      if (!Number.isFinite(command.count) || (!measure && command.count < 0)) return state;
+      const count = measure ? roundValue(command.count, getDecimals(project)) : command.count;
+      return updateProject(state, id, p => {
+        const newLogs = { ...p.logs };
+        if (count === 0 && !measure) {
+          delete newLogs[date];
+        } else {
+          newLogs[date] = count;
+        }
+        const isToday = date === today;
+        return {
+          ...p,
+          logs: newLogs,
+          events: withoutEventsOn(p.events, date),
+          count: isToday ? count : p.count,
+          lastActiveDate: isToday ? today : p.lastActiveDate
+        };
+      });
+    }
+
+    case 'deleteLog':
+      return updateProject(state, id, p => {
+        const newLogs = { ...p.logs };
+        delete newLogs[command.date];
+        return { ...p, logs: newLogs, events: withoutEventsOn(p.events, command.date) };
+      });
+
+    // Removes a single journal entry and reverses its effect on the daily total
+    case 'removeTapEvent': {
+      const event = project.events.find(e => e.id === command.eventId);
+      if (!event) return state;
+      return updateProject(state, id, p => {
+        const newLogs = { ...p.logs };
+        const nextDaily = Math.max(0, (newLogs[event.date] || 0) - event.delta);
+        const remainingEvents = p.events.filter(e => e.id !== event.id);
+        if (nextDaily === 0) {
+          delete newLogs[event.date];
+        } else {
+          newLogs[event.date] = nextDaily;
+        }
+        return {
+          ...p,
+          logs: newLogs,
+          events: nextDaily === 0 ? withoutEventsOn(remainingEvents, event.date) : remainingEvents,
+          count: event.date === today ? Math.max(0, p.count - event.delta) : p.count
+        };
+      });
+    }
+
+    case 'setStep':
+      if (!Number.isInteger(command.step) || command.step <= 0) return state;
+      return updateProject(state, id, p => ({ ...p, step: command.step }));
+
+    // A null or non-positive goal clears it
+    case 'setGoal': {
+      const goal = command.goal;
+      return updateProject(state, id, p => {
+        if (!goal || goal <= 0) {
+          const { goal: _removed, ...rest } = p;
+          return rest;
+        }
+        return { ...p, goal };
+      });
+    }
+
+    // An empty list clears the tags
+    case 'setTags': {
+      const tags = normalizeTags(command.tags);
+      if (sameTags(project.tags, tags)) return state;
+      return updateProject(state, id, p => {
+        if (tags.length === 0) {
+          const { tags: _removed, ...rest } = p;
+          return rest;
+        }
+        return { ...p, tags };
+      });
+    }
+
+    case 'setMeasureFormat': {
+      if (!isMeasure(project)) return state;
+      const next = withMeasureFormat(project, command.format);
+      if (next.unit === project.unit && next.decimals === project.decimals) return state;
+      // Existing values are kept as entered; only new ones use a lower precision
+      return updateProject(state, id, () => next);
+    }
+  }
+};
+
+// --- Queries ---
+
+export const selectActiveProject = (state: CounterState): Project | undefined =>
+  state.projects.find(p => p.id === state.activeProjectId) || state.projects[0];
+
+// Today's list, with the active project first
+export const selectVisibleProjects = (state: CounterState, today: string): Project[] => {
+  const { projects, activeProjectId } = state;
+  const sorter = (a: Project, b: Project) => {
+    if (a.id === activeProjectId) return -1;
+    if (b.id === activeProjectId) return 1;
+    return a.name.localeCompare(b.name);
+  };
+
+  return projects.filter(p => {
+    const isForToday = p.lastActiveDate === today;
+    const isCurrent = p.id === activeProjectId;
+    return isForToday || isCurrent;
+  }).sort(sorter);
+};
+
+export interface StreakInfo {
+  current: number;
+  longest: number;
+  isTodayLogged: boolean;
+}
+
+// Streaks count consecutive days with a non-zero log.
+// Before the first tap of the day, the current streak still includes the run ending yesterday;
+// it only drops to 0 once a whole day has passed without a log.
+export const computeStreak = (loggedDates: Set<string>, today: string): StreakInfo => {
+  const sorted = Array.from(loggedDates).filter(d => d <= today).sort();
+
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((date, i) => {
+    run = i > 0 && shiftDate(sorted[i - 1], 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const isTodayLogged = loggedDates.has(today);
+  let cursor = isTodayLogged ? today : shiftDate(today, -1);
+  let current = 0;
+  while (loggedDates.has(cursor)) {
+    current += 1;
+    cursor = shiftDate(cursor, -1);
+  }
+
+  return { current, longest, isTodayLogged };
+};
+
+// Streaks by trimmed name over the full history (not limited by a stats start date)
+export const selectStreaksByName = (projects: Project[], today: string): Record<string, StreakInfo> => {
+  const datesByName: Record<string, Set<string>> = {};
+  projects.forEach(p => {
+    const name = p.name.trim();
+    if (!datesByName[name]) datesByName[name] = new Set();
+    Object.keys(p.logs).forEach(date => {
+      if (hasLogOn(p, date)) datesByName[name].add(date);
+    });
+  });
+
+  const result: Record<string, StreakInfo> = {};
+  Object.entries(datesByName).forEach(([name, dates]) => {
+    result[name] = computeStreak(dates, today);
+  });
+  return result;
+};
+
+export interface AggregatedStat {
+  name: string;
+  tags: string[];
+  total: number;
+  occurrences: number;
+  periods: number; // Periods (of the requested granularity) with any count
+  goal?: number;
+  goalDays: number;
+  goalHitRate: number | null;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export interface StatsOptions {
+  granularity?: Granularity; // Defaults to 'day'
+  weekStartsOn?: number;
+}
+
+// Totals per trimmed project name for logs within the range, highest first (counters only)
+export const selectAggregatedStats = (
+  projects: Project[],
+  range: DateRange,
+  today: string,
+  { granularity = 'day', weekStartsOn = DEFAULT_WEEK_STARTS_ON }: StatsOptions = {}
+): AggregatedStat[] => {
+  const streaksByName = selectStreaksByName(projects, today);
+  const statsByName: Record<string, {
+    total: number,
+    occurrences: number,
+    goal?: number,
+    goalSetAt: number,
+    tags: string[],
+    dailyTotals: Record<string, number>
+  }> = {};
+
+  projects.forEach(p => {
+    if (isMeasure(p)) return;
+    const normalizedName = p.name.trim();
+    if (!statsByName[normalizedName]) {
+      statsByName[normalizedName] = { total: 0, occurrences: 0, goalSetAt: 0, tags: [], dailyTotals: {} };
+    }
+    const entry = statsByName[normalizedName];
+    entry.tags = normalizeTags([...entry.tags, ...(p.tags ?? [])]);
+    // Projects sharing a name use the goal of the most recently created one
+    if (p.goal && p.createdAt >= entry.goalSetAt) {
+      entry.goal = p.goal;
+      entry.goalSetAt = p.createdAt;
+    }
+    Object.entries(p.logs).forEach(([date, count]) => {
+      if (isInRange(date, range) && count > 0) {
+        entry.total += count;
+        entry.occurrences += 1;
+        entry.dailyTotals[date] = (entry.dailyTotals[date] || 0) + count;
+      }
+    });
+  });
+
+  return Object.entries(statsByName)
+    .map(([name, data]) => {
+      const trackedDays = Object.values(data.dailyTotals);
+      const goalDays = data.goal ? trackedDays.filter(c => c >= data.goal!).length : 0;
+      const periods = new Set(Object.keys(data.dailyTotals).map(d => getPeriodStart(d, granularity, weekStartsOn)));
+      return {
+        name,
+        tags: data.tags,
+        total: data.total,
+        occurrences: data.occurrences,
+        periods: periods.size,
+        goal: data.goal,
+        goalDays,
+        goalHitRate: data.goal && trackedDays.length > 0 ? goalDays / trackedDays.length : null,
+        currentStreak: streaksByName[name]?.current ?? 0,
+        longestStreak: streaksByName[name]?.longest ?? 0
+      };
+    })
+    .filter(item => item.total > 0)
+    .sort((a, b) => b.total - a.total);
+};
+
+// Every tag in use, alphabetically
+export const selectAllTags = (projects: Project[]): string[] =>
+  normalizeTags(projects.flatMap(p => p.tags ?? [])).sort((a, b) => a.localeCompare(b));
+
+export interface TagStat {
+  tag: string | null; // null groups the untagged projects
+  total: number;
+  occurrences: number; // Days with any count for the tag
+  periods: number; // Periods (of the requested granularity) with any count for the tag
+  projectNames: string[];
+}
+
+// Totals per tag for counter logs within the range, highest first. A project with several
+// tags counts towards each of them; tags differing only in case are grouped together.
+export const selectTagStats = (
+  projects: Project[],
+  range: DateRange,
+  { granularity = 'day', weekStartsOn = DEFAULT_WEEK_STARTS_ON }: StatsOptions = {}
+): TagStat[] => {
+  const statsByTag = new Map<string, { tag: string | null, total: number, dates: Set<string>, names: Set<string> }>();
+
+  projects.forEach(p => {
+    if (isMeasure(p)) return;
+    const tags = p.tags && p.tags.length > 0 ? normalizeTags(p.tags) : [null];
+    tags.forEach(tag => {
+      const key = tag === null ? '' : tag.toLowerCase();
+      let entry = statsByTag.get(key);
+      if (!entry) {
+        entry = { tag, total: 0, dates: new Set(), names: new Set() };
+        statsByTag.set(key, entry);
+      }
+      Object.entries(p.logs).forEach(([date, count]) => {
+        if (isInRange(date, range) && count > 0) {
+          entry!.total += count;
+          entry!.dates.add(date);
+          entry!.names.add(p.name.trim());
+        }
+      });
+    });
+  });
+
+  return Array.from(statsByTag.values())
+    .filter(entry => entry.total > 0)
+    .map(entry => ({
+      tag: entry.tag,
+      total: entry.total,
+      occurrences: entry.dates.size,
+      periods: new Set(Array.from(entry.dates).map(d => getPeriodStart(d, granularity, weekStartsOn))).size,
+      projectNames: Array.from(entry.names).sort((a, b) => a.localeCompare(b))
+    }))
+    .sort((a, b) => b.total - a.total);
+};
+
+export interface MeasureStat {
+  name: string;
+  unit?: string;
+  decimals: number;
+  latest: number;
+  latestDate: string;
+  min: number;
+  max: number;
+  average: number;
+  entries: number; // Days with a value
+}
+
+// Value summaries per trimmed name for measurement logs within the range, by name.
+// Projects sharing a name use the unit and precision of the most recently created one.
+export const selectMeasureStats = (projects: Project[], range: DateRange): MeasureStat[] => {
+  const byName = new Map<string, { format: Project, values: Record<string, number> }>();
+  projects.forEach(p => {
+    if (!isMeasure(p)) return;
+    const name = p.name.trim();
+    let entry = byName.get(name);
+    if (!entry) {
+      entry = { format: p, values: {} };
+      byName.set(name, entry);
+    }
+    if (p.createdAt >= entry.format.createdAt) entry.format = p;
+    Object.entries(p.logs).forEach(([date, value]) => {
+      if (isInRange(date, range)) entry!.values[date] = value;
+    });
+  });
+
+  return Array.from(byName.entries())
+    .map(([name, { format, values }]) => {
+      const dates = Object.keys(values).sort();
+      const list = dates.map(date => values[date]);
+      const latestDate = dates[dates.length - 1];
+      return {
+        name,
+        unit: format.unit,
+        decimals: getDecimals(format),
+        latest: values[latestDate],
+        latestDate,
+        min: Math.min(...list),
+        max: Math.max(...list),
+        average: list.reduce((sum, v) => sum + v, 0) / list.length,
+        entries: list.length
+      };
+    })
+    .filter(stat => stat.entries > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export interface HistoryDay {
+  date: string; // The day, or the first day of the period
+  total: number;
+  items: { projectId: string, name: string, count: number }[];
+}
+
+// Per-period breakdown for counter logs within the range, newest first (per day by default)
+export const selectHistoryData = (
+  projects: Project[],
+  range: DateRange,
+  { granularity = 'day', weekStartsOn = DEFAULT_WEEK_STARTS_ON }: StatsOptions = {}
+): HistoryDay[] => {
+  const itemsByPeriod = new Map<string, Map<string, HistoryDay['items'][number]>>();
+  projects.forEach(p => {
+    if (isMeasure(p)) return;
+    Object.entries(p.logs).forEach(([date, count]) => {
+      if (!isInRange(date, range) || count <= 0) return;
+      const period = getPeriodStart(date, granularity, weekStartsOn);
+      let items = itemsByPeriod.get(period);
+      if (!items) {
+        items = new Map();
+        itemsByPeriod.set(period, items);
+      }
+      const item = items.get(p.id);
+      items.set(p.id, { projectId: p.id, name: p.name, count: (item?.count ?? 0) + count });
+    });
+  });
+
+  return Array.from(itemsByPeriod.keys()).sort().reverse().map(date => {
+    const items = Array.from(itemsByPeriod.get(date)!.values());
+    return { date, total: items.reduce((sum, item) => sum + item.count, 0), items };
+  });
+};
+
+// --- Store ---
+
+export interface CounterStore {
+  getState(): CounterState;
+  // Replaces the whole state (loading, undo/redo, imports)
+  setState(state: CounterState): void;
+  // Applies a command and returns the resulting state
+  dispatch(command: CounterCommand): CounterState;
+  subscribe(listener: () => void): () => void;
+
+  visibleProjects(): Project[];
+  aggregatedStats(range: DateRange, options?: StatsOptions): AggregatedStat[];
+  tagStats(range: DateRange, options?: StatsOptions): TagStat[];
+  measureStats(range: DateRange): MeasureStat[];
+  historyData(range: DateRange, options?: StatsOptions): HistoryDay[];
+}
+
+export interface CounterStoreOptions {
+  getToday?: () => string;
+  now?: () => number;
+}
+
+export const createCounterStore = (
+  initialState: CounterState = { projects: [], activeProjectId: '' },
+  { getToday = getTodayString, now = Date.now }: CounterStoreOptions = {}
+): CounterStore => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  const commit = (next: CounterState) => {
+    if (next === state) return;
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getState: () => state,
+
+    setState: (next) => {
+      commit(ensureActiveProject(next, getToday(), now()));
+    },
+
+    dispatch: (command) => {
+      const context = { today: getToday(), now: now() };
+      commit(ensureActiveProject(applyCommand(state, command, context), context.today, context.now));
+      return state;
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    visibleProjects: () => selectVisibleProjects(state, getToday()),
+    aggregatedStats: (range, options) => selectAggregatedStats(state.projects, range, getToday(), options),
+    tagStats: (range, options) => selectTagStats(state.projects, range, options),
+    measureStats: (range) => selectMeasureStats(state.projects, range),
+    historyData: (range, options) => selectHistoryData(state.projects, range, options)
+  };
+};
@@ -0,0 +1,286 @@
+import type { Project, TapEvent } from './types';
+import { CounterStore, generateId, isMeasure } from './store';
+
+// --- Multi-Tab Sync ---
+//
+// Every open tab keeps its own copy of the data and saves it to the shared storage.
+// Instead of exchanging whole lists (where the last writer wins), each tab broadcasts
+// what it changed as a delta and the other tabs apply it on top of their own state,
+// so taps made at the same time in two tabs add up. Measurement values are not sums,
+// so they are sent as-is and the latest entry wins.
+
+const CHANNEL_NAME = 'bigtap_sync';
+const STORAGE_MESSAGE_KEY = 'bigtap_sync_message'; // Fallback transport via `storage` events
+
+type ProjectFields = Omit<Project, 'id' | 'count' | 'logs' | 'events'>;
+
+// Plain settings that are copied as-is when changed (null = cleared)
+const FIELD_KEYS: (keyof ProjectFields)[] = ['name', 'createdAt', 'lastActiveDate', 'step', 'goal', 'tags', 'type', 'unit', 'decimals'];
+
+export type ProjectChange =
+  | { type: 'create', project: Project }
+  | { type: 'remove', id: string }
+  | {
+      type: 'update',
+      id: string,
+      fields: { [K in keyof ProjectFields]?: ProjectFields[K] | null },
+      at: number, // When the change was made
+      countDelta: number,
+      logDeltas: Record<string, number>,
+      countValue?: number, // Measurements only: the new count
+      logValues?: Record<string, number | null>, // Measurements only: new day values (null = removed)
+      addedEvents: TapEvent[],
+      removedEventIds: string[]
+    };
+
+interface SyncMessage {
+  id: string;
+  source: string;
+  changes: ProjectChange[];
+}
+
+// --- Diff / Apply ---
+
+const diffProject = (before: Project, after: Project, at: number): ProjectChange | null => {
+  const fields: { [key: string]: unknown } = {};
+  FIELD_KEYS.forEach(key => {
+    if (before[key] !== after[key]) fields[key] = after[key] ?? null;
+  });
+
+  const measure = isMeasure(after);
+  const logDeltas: Record<string, number> = {};
+  const logValues: Record<string, number | null> = {};
+  if (before.logs !== after.logs) {
+    new Set([...Object.keys(before.logs), ...Object.keys(after.logs)]).forEach(date => {
+      if (measure) {
+        if (before.logs[date] !== after.logs[date]) logValues[date] = after.logs[date] ?? null;
+        return;
+      }
+      const delta = (after.logs[date] || 0) - (before.logs[date] || 0);
+      if (delta !== 0) logDeltas[date] = delta;
+    });
+  }
+
+  let addedEvents: TapEvent[] = [];
+  let removedEventIds: string[] = [];
+  if (before.events !== after.events) {
+    const beforeIds = new Set(before.events.map(e => e.id));
+    const afterIds = new Set(after.events.map(e => e.id));
+    addedEvents = after.events.filter(e => !beforeIds.has(e.id));
+    removedEventIds = before.events.filter(e => !afterIds.has(e.id)).map(e => e.id);
+  }
+
+  const countDelta = measure ? 0 : after.count - before.count;
+  const countValue = measure && after.count !== before.count ? after.count : undefined;
+  const hasChanges = Object.keys(fields).length > 0 || Object.keys(logDeltas).length > 0 ||
+    Object.keys(logValues).length > 0 || addedEvents.length > 0 || removedEventIds.length > 0 ||
+    countDelta !== 0 || countValue !== undefined;
+  if (!hasChanges) return null;
+
+  return {
+    type: 'update',
+    id: after.id,
+    fields,
+    at,
+    countDelta,
+    logDeltas,
+    ...(measure ? { countValue, logValues } : {}),
+    addedEvents,
+    removedEventIds
+  };
+};
+
+// Describes how `after` differs from `before`, one entry per created, removed or changed project
+export const diffProjects = (before: Project[], after: Project[], at = Date.now()): ProjectChange[] => {
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  const afterIds = new Set(after.map(p => p.id));
+  const changes: ProjectChange[] = [];
+
+  after.forEach(p => {
+    const prev = beforeById.get(p.id);
+    if (!prev) {
+      changes.push({ type: 'create', project: p });
+    } else if (prev !== p) {
+      const change = diffProject(prev, p, at);
+      if (change) changes.push(change);
+    }
+  });
+  before.forEach(p => {
+    if (!afterIds.has(p.id)) changes.push({ type: 'remove', id: p.id });
+  });
+
+  return changes;
+};
+
+// Applies deltas from another tab. Counts and daily logs are adjusted by the
+// difference rather than overwritten, so local changes made meanwhile are kept.
+// Measurement values are overwritten; `acceptValue` can turn down ones older than a local entry.
+export const applyProjectChanges = (
+  projects: Project[],
+  changes: ProjectChange[],
+  acceptValue: (projectId: string, key: string, at: number) => boolean = () => true
+): Project[] => {
+  let next = projects;
+
+  changes.forEach(change => {
+    if (change.type === 'create') {
+      next = next.some(p => p.id === change.project.id)
+        ? next.map(p => (p.id === change.project.id ? change.project : p))
+        : [...next, change.project];
+      return;
+    }
+    if (change.type === 'remove') {
+      next = next.filter(p => p.id !== change.id);
+      return;
+    }
+
+    next = next.map(p => {
+      if (p.id !== change.id) return p;
+      // Measurement counts can be below zero and only change through countValue
+      const updated: Project = { ...p, count: isMeasure(p) ? p.count : Math.max(0, p.count + change.countDelta) };
+
+      const record = updated as unknown as Record<string, unknown>;
+      Object.entries(change.fields).forEach(([key, value]) => {
+        if (value === null) {
+          delete record[key];
+        } else {
+          record[key] = value;
+        }
+      });
+
+      if (change.countValue !== undefined && acceptValue(p.id, 'count', change.at)) {
+        updated.count = change.countValue;
+      }
+
+      const logDates = Object.keys(change.logDeltas);
+      const valueDates = Object.keys(change.logValues ?? {}).filter(date => acceptValue(p.id, date, change.at));
+      if (logDates.length > 0 || valueDates.length > 0) {
+        const newLogs = { ...p.logs };
+        logDates.forEach(date => {
+          const value = (newLogs[date] || 0) + change.logDeltas[date];
+          if (value > 0) {
+            newLogs[date] = value;
+          } else {
+            delete newLogs[date];
+          }
+        });
+        valueDates.forEach(date => {
+          const value = change.logValues![date];
+          if (value === null) {
+            delete newLogs[date];
+          } else {
+            newLogs[date] = value;
+          }
+        });
+        updated.logs = newLogs;
+      }
+
+      if (change.addedEvents.length > 0 || change.removedEventIds.length > 0) {
+        const removed = new Set(change.removedEventIds);
+        const existingIds = new Set(p.events.map(e => e.id));
+        updated.events = [
+          ...p.events.filter(e => !removed.has(e.id)),
+          ...change.addedEvents.filter(e => !existingIds.has(e.id))
+        ].sort((a, b) => a.at - b.at);
+      }
+
+      return updated;
+    });
+  });
+
+  return next;
+};
+
+// --- Transport ---
+
+interface SyncTransport {
+  post(message: SyncMessage): void;
+  close(): void;
+}
+
+const openTransport = (onMessage: (message: SyncMessage) => void): SyncTransport => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<SyncMessage>) => onMessage(e.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  // `storage` events fire in every other tab of the same origin when a key changes
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_MESSAGE_KEY || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue));
+    } catch (err) {
+      console.warn('Ignoring malformed sync message', err);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => {
+      try {
+        localStorage.setItem(STORAGE_MESSAGE_KEY, JSON.stringify(message));
+      } catch (err) {
+        console.warn('Failed to broadcast changes', err);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
+
+// --- Tab Sync ---
+
+export interface TabSync {
+  close(): void;
+}
+
+// Broadcasts local project changes of `store` and merges the ones made in other tabs.
+// The active project is per tab and never synced.
+export const createTabSync = (store: CounterStore, onRemoteChanges?: (changes: ProjectChange[]) => void): TabSync => {
+  const tabId = generateId();
+  // Projects as last broadcast or received; local changes are diffed against this
+  let synced = store.getState().projects;
+  // Latest write of each measurement value ("projectId/date" or "projectId/count"), so that
+  // entries made at the same time in two tabs settle on the same (newest) value everywhere
+  const valueWrites = new Map<string, { at: number, source: string }>();
+  const recordValueWrite = (projectId: string, key: string, at: number, source: string) => {
+    const last = valueWrites.get(`${projectId}/${key}`);
+    if (last && (last.at > at || (last.at === at && last.source > source))) return false;
+    valueWrites.set(`${projectId}/${key}`, { at, source });
+    return true;
+  };
+
+  const transport = openTransport(message => {
+    if (!message || message.source === tabId || !Array.isArray(message.changes)) return;
+    const state = store.getState();
+    const merged = applyProjectChanges(state.projects, message.changes,
+      (projectId, key, at) => recordValueWrite(projectId, key, at, message.source));
+    synced = merged;
+    store.setState({ ...state, projects: merged });
+    onRemoteChanges?.(message.changes);
+  });
+
+  const unsubscribe = store.subscribe(() => {
+    const { projects } = store.getState();
+    if (projects === synced) return;
+    const changes = diffProjects(synced, projects);
+    synced = projects;
+    changes.forEach(change => {
+      if (change.type !== 'update') return;
+      if (change.countValue !== undefined) recordValueWrite(change.id, 'count', change.at, tabId);
+      Object.keys(change.logValues ?? {}).forEach(date => recordValueWrite(change.id, date, change.at, tabId));
+    });
+    if (changes.length > 0) {
+      transport.post({ id: generateId(), source: tabId, changes });
+    }
+  });
+
+  return {
+    close: () => {
+      unsubscribe();
+      transport.close();
+    }
+  };
+};
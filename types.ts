@@ -0,0 +1,32 @@
+// --- Shared Data Types ---
+
+export interface DailyLog {
+  [date: string]: number; // "YYYY-MM-DD": count
+}
+
+// A single tap (positive delta) or decrement correction (negative delta)
+export interface TapEvent {
+  id: string;
+  at: number; // Timestamp (ms)
+  date: string; // "YYYY-MM-DD" - The day the tap was booked to
+  delta: number;
+}
+
+// 'counter' adds up taps; 'measure' records one entered value per day (e.g. body weight)
+export type ProjectType = 'counter' | 'measure';
+
+export interface Project {
+  id: string;
+  name: string;
+  count: number; // The current visual number (session/scratchpad)
+  logs: DailyLog; // Historical record of increments
+  events: TapEvent[]; // Per-tap journal (days logged before it existed or edited manually have totals only)
+  createdAt: number;
+  lastActiveDate: string; // "YYYY-MM-DD" - Tracks which 'list' (day) this belongs to
+  step?: number; // Amount added/removed per tap (defaults to 1)
+  goal?: number; // Optional daily target for logs[today]
+  tags?: string[]; // Optional categories (e.g. "health", "work") for filtering and grouped stats
+  type?: ProjectType; // Defaults to 'counter'; for 'measure', logs hold the day's value and count mirrors today's
+  unit?: string; // Measurement unit label (e.g. "kg", "h")
+  decimals?: number; // Measurement precision, 0-3 (defaults to 0)
+}
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,34 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // Precaches the whole build so the app works offline after the first visit.
+        // 'prompt' keeps the old version running until the user accepts an update.
+        VitePWA({
+          registerType: 'prompt',
+          includeAssets: ['icon.svg', 'apple-touch-icon.png'],
+          manifest: {
+            name: 'BigTap Counter',
+            short_name: 'BigTap',
+            description: 'A high-contrast, large-button counter application with auto-save functionality.',
+            lang: 'zh-TW',
+            start_url: '/',
+            display: 'standalone',
+            orientation: 'portrait',
+            background_color: '#020617',
+            theme_color: '#020617',
+            icons: [
+              { src: 'icon-192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+            ]
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,css,html,svg,png,woff2}']
+          }
+        })
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)